@@ -0,0 +1,87 @@
+/**
+ * Compares how long the backends of the interpreter take to run the
+ * functions of `stdlib/list`:
+ *
+ *   npm run benchmark [-- <list length> <runs>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Backend, Interpreter, IOHandle } from '../src/lang/interpreter';
+
+
+const BACKENDS: Backend[] = ['tree', 'closures', 'bytecode'];
+
+const SETUP = (length: number) => `
+  :list .= IO:require 'list';
+  :xs .= List:range 0 ${length};
+  :sum .= (items. match items with | [] -> 0 | [x, ..rest] -> x + sum rest);
+`;
+
+const WORKLOADS: Record<string, string> = {
+  'map': 'list:map (x. x * 2 + 1) xs',
+  'filter': 'list:filter (x. x < 500 || x > 1500) xs',
+  'reduce': 'list:reduce (acc x. acc + x * x) 0 xs',
+  'reverse': 'list:reverse xs',
+  'for_each': 'list:for_each (x. if x > 0 then x else 0) xs',
+  'recursive sum': 'sum xs',
+};
+
+const STDLIB = path.resolve(__dirname, '../stdlib');
+
+// Modules run on the same backend as the benchmark
+const makeInterpreter = (backend: Backend): Interpreter => {
+  const io: IOHandle = {
+    readLine: () => '',
+    writeLine: line => console.log(line),
+    exit: () => {},
+    resolveModule: (_location, name) =>
+      makeInterpreter(backend).runMultilineReturnLast(fs.readFileSync(path.join(STDLIB, name), 'utf-8')),
+  };
+  const interpreter = new Interpreter(io);
+  interpreter.backend = backend;
+  return interpreter;
+};
+
+const time = (interpreter: Interpreter, source: string, runs: number): number => {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < runs; i++) {
+    const result = interpreter.runLine(source);
+    if ('err' in result)
+      throw new Error(`${source}: ${JSON.stringify(result.err)}`);
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / runs;
+};
+
+
+const main = () => {
+  const length = Number(process.argv[2] || 2000);
+  const runs = Number(process.argv[3] || 10);
+
+  const interpreters = BACKENDS.map(backend => {
+    const interpreter = makeInterpreter(backend);
+    const setup = interpreter.runMultiline(SETUP(length));
+    if ('err' in setup)
+      throw new Error(JSON.stringify(setup.err));
+    return interpreter;
+  });
+
+  console.log(`Lists of ${length} numbers, average of ${runs} runs, in milliseconds\n`);
+  // The speedups are over the tree walker
+  const compared = BACKENDS.slice(1);
+  console.log(['', ...BACKENDS, ...compared.map(backend => `${backend} x`)].map(cell => cell.padStart(14)).join(''));
+  for (const [name, source] of Object.entries(WORKLOADS)) {
+    // Let the JIT warm up before measuring. Every run parses the line again,
+    // and the compiling backends compile it again.
+    interpreters.forEach(interpreter => time(interpreter, source, 1));
+    const [tree, ...others] = interpreters.map(interpreter => time(interpreter, source, runs));
+    const cells = [
+      name,
+      ...[tree, ...others].map(ms => ms.toFixed(2)),
+      ...others.map(ms => `${(tree / ms).toFixed(2)}x`),
+    ];
+    console.log(cells.map(cell => cell.padStart(14)).join(''));
+  }
+};
+
+main();
@@ -8,7 +8,15 @@ export type Either<E, A> = Readonly<{ok: A}> | Readonly<{err: E}>;
 export const Ok = <E, A>(ok: A): Either<E, A> => ({ok});
 export const Err = <E, A>(err: E): Either<E, A> => ({err});
 
-export type ParseError = {recoverable: boolean, msg: string};
+export type ParseError = {
+  recoverable: boolean,
+  msg: string,
+  // How much input was left when the parser failed. The smaller
+  // this is, the further the parser has got before failing.
+  remaining?: number,
+  // Human-readable descriptions of what would've let the parser continue
+  expected?: readonly string[],
+};
 
 export type ParserF<A> = (src: string) => Either<ParseError, [A, string]>;
 
@@ -1,9 +1,10 @@
 import * as readline from 'readline';
-import { Interpreter, IOHandle, LangError } from './lang/interpreter';
-import { prettyPrint, RuntimeError, Symbol, Value } from './lang/runtime';
+import { Backend, Interpreter, IOHandle, LangError } from './lang/interpreter';
+import { prettyPrint, RuntimeError, StackFrame, Symbol, Value } from './lang/runtime';
 import { ColorHandle, identityColorHandle } from './lang/color';
 import chalk from 'chalk';
 import { Either, Err, Ok } from './either';
+import { Span } from './language';
 
 import { renderDim } from './lang/units';
 import { matchExhaustive } from '@practical-fp/union-types';
@@ -16,8 +17,24 @@ import * as readlieSync from 'readline-sync';
 
 const moduleCache: Record<string, Value> = {};
 
+// Source code of every file we've run, so that errors can show a code frame
+const sourceTexts: Record<string, string> = {};
+
 const STDLIB_PATH = path.resolve(__dirname, '../../stdlib');
 
+// The backend of every interpreter made here, modules included
+let backend: Backend = 'tree';
+
+export const useBackend = (name: Backend) => {
+  backend = name;
+};
+
+export const makeInterpreter = (location: string | null = null, file: string | null = null): Interpreter => {
+  const interpreter = new Interpreter(defaultIOHandle, null, null, location, file);
+  interpreter.backend = backend;
+  return interpreter;
+};
+
 export const defaultIOHandle: IOHandle = {
   readLine: () => readlieSync.prompt({prompt: ''}),
   writeLine: (s: string) => console.log(s),
@@ -41,7 +58,8 @@ export const defaultIOHandle: IOHandle = {
         continue;
       }
 
-      const interpreter = new Interpreter(defaultIOHandle, null, null, path.dirname(modulePath));
+      const interpreter = makeInterpreter(path.dirname(modulePath), modulePath);
+      sourceTexts[modulePath] = source;
 
       // If a module tries to import itself circularly, it will get this instead:
       moduleCache[moduleName] = Symbol('__circular_import__');
@@ -76,6 +94,8 @@ export const runCode = (() => {
     'UndefinedName': 'name not defined',
     'DimensionMismatch': 'dimension mismatch',
     'NotInDomain': 'value not in domain',
+    'NoMatch': 'no pattern matched',
+    'StackOverflow': 'stack overflow',
     'Other': 'other',
   }[k]);
 
@@ -86,30 +106,73 @@ export const runCode = (() => {
       UnexpectedType: ({expected, got}) => `expected ${expected}, got ${prettyPrint(got, colors)}`,
       DimensionMismatch: ({left, right}) => `between ${renderDim(left)} and ${renderDim(right)}`,
       NotInDomain: ({value, explanation}) => `${value}, ${explanation}`,
+      NoMatch: value => prettyPrint(value, colors),
+      StackOverflow: limit => `the recursion limit is ${limit} nested calls`,
       Other: value => prettyPrint(value, colors),
     });
 
+  // Show the line that `span` starts on, and underline the spanned part of it:
+  //
+  //   --> file:2:7
+  //    |
+  //  2 | 1 + 2 + foo
+  //    |         ^^^
+  const printCodeFrame = (span: Span): string => {
+    const location = chalk.blueBright(`  --> ${span.file}:${span.line}:${span.col}`);
+    const source = sourceTexts[span.file];
+    if (source === undefined)
+      return location;
+
+    const lineStart = span.start - span.col + 1;
+    const lineEnd = source.indexOf('\n', lineStart);
+    const line = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+    const underlineLength = Math.max(1, Math.min(span.end, lineStart + line.length) - span.start);
+
+    const gutter = ' '.repeat(String(span.line).length);
+    return [
+      location,
+      chalk.blueBright(` ${gutter} |`),
+      chalk.blueBright(` ${span.line} | `) + line,
+      chalk.blueBright(` ${gutter} | `) + ' '.repeat(span.col - 1) + chalk.red('^'.repeat(underlineLength)),
+    ].join('\n');
+  };
+
+  const printStackFrame = ({name, span}: StackFrame): string =>
+    '\n' + chalk.gray(
+      span === undefined
+      ? `  at ${name}`
+      : `  at ${name} (${span.file}:${span.line}:${span.col})`
+    );
+
   const printError = (e: LangError): string => {
     switch (e.type) {
       case 'lexError':
         return chalk.red('Lex error: ') + chalk.yellowBright(e.msg);
       case 'parseError':
-        return chalk.red('Parse error: ') + chalk.yellowBright(e.msg);
+        return (
+            chalk.red('Parse error: ') + chalk.yellowBright(e.msg)
+          + (e.span === undefined ? '' : '\n' + printCodeFrame(e.span))
+        );
       case 'runtimeError':
         return (
             chalk.red('Runtime error: ')
           + chalk.yellowBright(
             formatErrorType(e.err.tag) + ': ' + printErrorDetails(e.err)
           )
+          + (e.err.span === undefined ? '' : '\n' + printCodeFrame(e.err.span))
+          + (e.err.trace || []).map(printStackFrame).join('')
         );
     }
   };
 
   return (interpreter: Interpreter, sourceCode: string): Either<string, Value[]> => {
-    const result = interpreter.runMultiline(sourceCode);
-    return 'ok' in result
-      ? Ok(result.ok)
-      : Err(printError(result.err));
+    sourceTexts[interpreter.file] = sourceCode;
+
+    const values: Value[] = [];
+    const errors: LangError[] = [];
+    interpreter.runMultilineWithCallback(sourceCode, value => values.push(value), e => errors.push(e));
+
+    return errors.length === 0 ? Ok(values) : Err(errors.map(printError).join('\n\n'));
   };
 })();
 
@@ -152,7 +215,7 @@ const colors = (() => {
 export const readEvalPrintLoop = () => {
   const formatPrompt = () => chalk.greenBright('λ > ');
 
-  const interpreter = new Interpreter(defaultIOHandle);
+  const interpreter = makeInterpreter(null, '<repl>');
 
   const rl = readline.createInterface({
     input: process.stdin,
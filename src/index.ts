@@ -1,29 +1,42 @@
 import * as fs from 'fs';
-import { runCode, readEvalPrintLoop, defaultIOHandle } from './execution';
-import { Interpreter } from './lang/interpreter';
+import { runCode, readEvalPrintLoop, makeInterpreter, useBackend } from './execution';
+import { Backend } from './lang/interpreter';
 
 
-const simplyRunCode = (sourceCode: string) => {
-  const interpreter = new Interpreter(defaultIOHandle);
+const BACKENDS: Backend[] = ['tree', 'closures', 'bytecode'];
+
+const simplyRunCode = (sourceCode: string, file: string | null = null) => {
+  const interpreter = makeInterpreter(null, file);
   const result = runCode(interpreter, sourceCode);
   if ('err' in result)
     console.error(result.err);
 };
 
 
-if (process.argv[2] === 'repl') {
+// `--backend <name>` can come anywhere, and picks how the code runs
+const args = process.argv.slice(2);
+const flag = args.indexOf('--backend');
+const backend = flag === -1 ? 'tree' : args.splice(flag, 2)[1];
+
+if (!BACKENDS.includes(backend as Backend)) {
+  console.error(`The backend must be one of ${BACKENDS.join(', ')}`);
+  process.exit(1);
+}
+useBackend(backend as Backend);
+
+if (args[0] === 'repl') {
   readEvalPrintLoop();
-} else if (process.argv[2] === 'stdin') {
+} else if (args[0] === 'stdin') {
   const STDIN_FD = 0;
   const sourceCode = fs.readFileSync(STDIN_FD, 'utf-8');
-  simplyRunCode(sourceCode);
-} else if (process.argv[2] === 'file') {
-  const filename = process.argv[3];
+  simplyRunCode(sourceCode, '<stdin>');
+} else if (args[0] === 'file') {
+  const filename = args[1];
   if (!filename){
     console.error('You must provide a filename');
   } else {
     const sourceCode = fs.readFileSync(filename, 'utf-8');
-    simplyRunCode(sourceCode);
+    simplyRunCode(sourceCode, filename);
   }
 } else {
   console.log('Only `npm start repl`, `npm start stdin` and `npm start file` are supported for now');
@@ -4,93 +4,150 @@
  * Abstract Syntax Tree.
  */
 
-import { Variant, impl, matchExhaustive } from '@practical-fp/union-types';
+import { Variant, impl } from '@practical-fp/union-types';
 import Big from 'big.js';
+import { joinSpans, Spanned, withSpan } from '../language';
+import { bindersOf, freeNames } from './scopes';
 
-export type Expr =
+// Every node produced by the parser carries a `span` pointing
+// back at the source code it was parsed from
+export type Expr = Spanned & (
   | Variant<'Name',   string>
   | Variant<'App',    {fun: Expr, arg: Expr}>
   | Variant<'Dec',    Big>
   | Variant<'Str',    string>
+  | Variant<'Template', Template>
   | Variant<'Symbol', string>
-  | Variant<'Table',  [string, Expr][]>
+  | Variant<'Table',  TableEntry[]>
+  | Variant<'List',   ListItem[]>
   | Variant<'Cond',   {if: Expr, then: Expr, else: Expr}>
-  | Variant<'Lam',    Lambda>;
+  | Variant<'Lam',    Lambda>
+  | Variant<'Match',  {subject: Expr, arms: MatchArm[]}>
+  | Variant<'Let',    LetT>
+  | Variant<'Block',  Statement[]>
+  | Variant<'DefineMacro', DefineMacroT>
+);
 
-export const { Name, App, Dec, Str, Symbol, Table, Cond, Lam } = impl<Expr>()
+export const {
+  Name, App, Dec, Str, Template, Symbol, Table, List, Cond, Lam, Match, Let, Block, DefineMacro
+} = impl<Expr>()
+
+// An interpolated string like "a{x}b{y}c" is stored as
+// {strings: ['a', 'b', 'c'], exprs: [x, y]}, so there's always
+// one more string than there are expressions
+export type Template = {strings: string[], exprs: Expr[]};
+
+// A `null` key means that the table is spread into the new one, like `base`
+// in `{..base, port: 9090}`. Later keys override earlier ones.
+export type TableEntry = [string | null, Expr];
+
+// In `[a, ..b]`, `b` is spread into the list
+export type ListItem = {expr: Expr, spread: boolean};
+
+// `let x = 1, y = x + 1 in x * y`, where each binding can see the ones
+// before it. With `let rec`, every binding can see all of them, so local
+// functions can call each other. `body where {x = 1}` is the same as
+// `let x = 1 in body`.
+export type LetT = {bindings: LetBinding[], body: Expr, rec: boolean};
+
+export type LetBinding = {name: string, value: Expr};
+
+// A statement in `do { :x = read {}; IO:log x; x }`. `:x = read {}` binds
+// a name inside the block, the others have a `null` name.
+export type Statement = {name: string | null, expr: Expr};
+
+// `macro unless c body. ...` binds the global `unless` to a macro that
+// expands with the function, see `./macros`
+export type DefineMacroT = {name: string, expander: Expr};
 
 export type Lambda = {arg: LamArg, expr: Expr, capturedNames: string[]};
 
+// A function with the names it captures from the outside
+export const lambda = (arg: LamArg, expr: Expr): Lambda => ({
+  arg,
+  expr,
+  // Default values can refer to names from the outside
+  capturedNames: [...new Set([...freeNames(expr, bindersOf(arg)), ...freeNames(arg)])],
+});
+
 export const makeLambda = (arg: LamArg, expr: Expr): Expr =>
-  Lam({
-    arg,
-    expr,
-    capturedNames: getCapturedNames(expr, extractNamesFromArg(arg))
-  });
+  withSpan(Lam(lambda(arg, expr)), joinSpans(arg.span, expr.span));
+
+export const makeApp = (fun: Expr, arg: Expr): Expr =>
+  withSpan(App({fun, arg}), joinSpans(fun.span, arg.span));
 
 // Types related to lambdas:
 
-export type LamArg =
+export type LamArg = Spanned & (
   | Variant<'ArgSingle', string>
-  | Variant<'ArgTable', [string, LamArg][]>;
+  | Variant<'ArgTable', ArgTableT>
+  | Variant<'ArgList', ArgListT>
+  | Variant<'ArgDefault', ArgDefaultT>
+);
+
+export const { ArgSingle, ArgTable, ArgList, ArgDefault } = impl<LamArg>();
 
-export const { ArgSingle, ArgTable } = impl<LamArg>();
+// In `{a, b: c, ..rest}`, `rest` gets a table with all the other keys
+export type ArgTableT = {pairs: [string, LamArg][], rest: LamArg | null};
 
+// `[a, b, ..rest]` has `rest`, `[a, b]` doesn't
+export type ArgListT = {items: LamArg[], rest: LamArg | null};
+
+// In `{port: p = 8080}`, the target of `port` is `p` with a default of 8080.
+// The default is used when the key is missing, and it's evaluated in
+// the closure of the function, so it can't see the other parameters.
+export type ArgDefaultT = {arg: LamArg, default: Expr};
+
+
+// Types related to `match`:
+
+// `| pattern if guard -> body`, where the guard is optional
+export type MatchArm = {pattern: Pattern, guard: Expr | null, body: Expr};
+
+// A literal pattern is a number, string or symbol literal, or `true`
+// or `false`, which is compared to the value. A `PatArg` binds names
+// just like a function parameter would, but only matches tables and
+// lists with the right shape.
+export type Pattern = Spanned & (
+  | Variant<'PatLiteral', Expr>
+  | Variant<'PatArg', LamArg>
+);
+
+export const { PatLiteral, PatArg } = impl<Pattern>();
 
 // Types used by the parser:
 
-export type Op =
+export type Op = Spanned & (
   | Variant<'InfixOp', string>
   | Variant<'ExprOp', Expr>
+  | Variant<'PrefixOp', string>
+);
+
+export const { InfixOp, ExprOp, PrefixOp } = impl<Op>();
 
-export const { InfixOp, ExprOp } = impl<Op>();
+// Something between infix operators, like `-x` in `a * -x`,
+// along with the prefix operators in front of it
+export type Operand = {prefixes: Op[], expr: Expr};
 
-export type Ops = {initial: Expr, chunks: [Op, Expr][]}
+export type Ops = {initial: Operand, chunks: [Op, Operand][]}
 
-export type Priority = {strength: number, direction: 'left' | 'right'};
+// Operators with the `none` direction can't be chained with operators of
+// the same strength, like `a == b == c`, without parentheses
+export type Priority = {strength: number, direction: 'left' | 'right' | 'none'};
 export const Prio = (
   strength: number,
-  direction: 'left' | 'right'
+  direction: Priority['direction']
 ): Priority =>
   ({strength, direction});
 
+// `-x` is parsed as `negate x`, where `negate` is the `fn` of `-`. A prefix
+// operator applies to everything on its right that binds more strongly than
+// it, so `-x ^ 2` is `negate (x ^ 2)`, but `-x + 2` is `(negate x) + 2`.
+export type PrefixPriority = {fn: string, strength: number};
+
 export type ParseOptions = {
   priorities: Record<string, Priority>,
+  prefixOperators: Record<string, PrefixPriority>,
   backtickPriority: Priority,  // priority for `f` and `g` in (a `f` b `g` c)
   defaultPriority: Priority
 }
-
-
-const extractNamesFromArg = (arg: LamArg): string[] =>
-  matchExhaustive(arg, {
-    ArgSingle: name => [name],
-    ArgTable: table => table.flatMap(([_src, target]) => extractNamesFromArg(target))
-  });
-
-
-const _getCapturedNames = (expr: Expr, exclude: string[]): string[] =>
-  matchExhaustive(expr, {
-    Name: name => exclude.includes(name) ? [] : [name],
-    App: ({fun, arg}) =>
-      _getCapturedNames(fun, exclude)
-      .concat(_getCapturedNames(arg, exclude)),
-    Dec: () => [],
-    Str: () => [],
-    Symbol: () => [],
-    Table: pairs => pairs.flatMap(([_, subexpr]) => _getCapturedNames(subexpr, exclude)),
-    Lam: ({capturedNames}) => capturedNames.filter(name => !exclude.includes(name)),
-    Cond: (e) => [
-      ..._getCapturedNames(e.if, exclude),
-      ..._getCapturedNames(e.then, exclude),
-      ..._getCapturedNames(e.else, exclude)
-    ]
-  });
-
-
-const unique =
-  <T>(arr: ReadonlyArray<T>): T[] =>
-  [...new Set(arr)];
-
-const getCapturedNames =
-  (expr: Expr, exclude: string[]): string[] =>
-  unique(_getCapturedNames(expr, exclude));
@@ -0,0 +1,641 @@
+/**
+ * This module is the bytecode backend, which runs statements instead of
+ * `interpret` when `Interpreter.backend` is `'bytecode'`.
+ *
+ * A statement is compiled to a chunk of bytecode, a flat list of numbers
+ * where every instruction is an opcode followed by its operands, and so is
+ * the body of every function the first time it's called. Operands that
+ * aren't numbers, like values and names, are kept in the pools of the chunk,
+ * and the operand is their index there.
+ *
+ * The chunk runs on a machine with a stack of values, where instructions
+ * take their arguments and leave their results, and a stack of the
+ * functions that are running, both on the heap. It makes the same envs and
+ * values as `interpret`, so functions made by one backend can be called by
+ * the other, and it has the same tail calls, recursion limit and stack
+ * traces.
+ */
+
+import { Map } from 'immutable';
+import { Expr, Lambda, Pattern } from './ast';
+import {
+  And,
+  Applier,
+  asBool,
+  asList,
+  asTable,
+  bindInLevel,
+  Bool,
+  countCall,
+  DEFAULT_RECURSION_LIMIT,
+  defineMacro,
+  enterFunction,
+  Env,
+  List,
+  lookupName,
+  makeClosure,
+  makeLevel,
+  matchPattern,
+  nameFunction,
+  NoMatch,
+  Or,
+  Partial,
+  prettyPrint,
+  Run,
+  RunningCall,
+  RuntimeError,
+  shortCircuitOperator,
+  StackFrame,
+  startMachine,
+  Str,
+  Symbol,
+  Table,
+  tailCall,
+  tryLookupName,
+  UndefinedName,
+  UnexpectedType,
+  Unit,
+  Value,
+  withFrame,
+} from './runtime';
+import { addressOf } from './resolver';
+import { Err, Ok } from '../either';
+import { List as ImmutableList } from 'immutable';
+import { matchWildcard, WILDCARD } from '@practical-fp/union-types';
+import { Span, withSpan } from '../language';
+
+
+/// Bytecode
+
+
+// The operands are listed after each opcode. `target` is the position in
+// the code to jump to.
+enum Op {
+  // value: push `values[value]`
+  Const,
+  // name: push the value of `names[name]`
+  LoadName,
+  // lambda: push a function made from `lambdas[lambda]` in the current env
+  MakeClosure,
+  // Pop an argument and a function, and push the result of the call
+  Apply,
+  // Like `Apply`, but the function that is running is replaced by the one
+  // it calls, which returns to the caller
+  TailApply,
+  // Return the value on top of the stack from the function that is running
+  Return,
+  // target
+  Jump,
+  // target: pop a boolean, and jump if it's `false`
+  JumpUnless,
+  // name, target: if `strings[name]` is a short-circuiting operator, push
+  // the value of the left operand that decides the result. Otherwise, jump.
+  ShortCircuit,
+  // target: pop the left operand and the deciding value. If they're equal,
+  // push the left operand and jump.
+  Decide,
+  // Check that the value on top of the stack is a boolean
+  AsBool,
+  // template: pop the values spliced into `templates[template]`, and push the string
+  BuildTemplate,
+  // table: pop the values of the entries with the keys `tables[table]`,
+  // where `null` is a spread, and push the table
+  BuildTable,
+  // Check that the value on top of the stack can be spread into a table
+  CheckTable,
+  // list: pop the items, which are spread where `lists[list]` says so, and push the list
+  BuildList,
+  // Check that the value on top of the stack can be spread into a list
+  CheckList,
+  // pattern, target: match the value on top of the stack with
+  // `patterns[pattern]`, and enter an env with the names it binds. Jump if
+  // it doesn't match.
+  Match,
+  // target: pop a boolean. If it's `false`, leave the env of the arm and jump.
+  Guard,
+  // Pop the value that no arm matched, and fail
+  NoMatch,
+  // Pop a value
+  Drop,
+  // Enter an env for `let` or a block, see `interpret`. The names of
+  // `let rec` and blocks are bound in it as they're computed.
+  EnterLet,
+  EnterShared,
+  // name: pop a value, and bind `strings[name]` to it in a new `let` env
+  Bind,
+  // name: pop a value, bind `strings[name]` to it in the current env, and
+  // push it back, named
+  Assign,
+  // Go back to the env the innermost `let`, block or arm was entered from
+  LeaveEnv,
+  // name: pop a function, bind `strings[name]` to a macro that expands with
+  // it, and push the macro
+  DefineMacro,
+}
+
+type Chunk = {
+  code: number[];
+  // The span of the node every instruction comes from, at the position of
+  // its opcode. Errors happen there.
+  spans: (Span | undefined)[];
+  values: Value[];
+  names: (Expr & {tag: 'Name'})[];
+  strings: string[];
+  lambdas: Lambda[];
+  patterns: Pattern[];
+  templates: string[][];
+  tables: (string | null)[][];
+  lists: boolean[][];
+};
+
+const makeChunk = (): Chunk => ({
+  code: [],
+  spans: [],
+  values: [],
+  names: [],
+  strings: [],
+  lambdas: [],
+  patterns: [],
+  templates: [],
+  tables: [],
+  lists: [],
+});
+
+
+/// Compiling
+
+
+const add = <A>(pool: A[], item: A): number =>
+  pool.push(item) - 1;
+
+const emit = (chunk: Chunk, span: Span | undefined, op: Op, ...operands: number[]) => {
+  chunk.spans[chunk.code.length] = span;
+  chunk.code.push(op, ...operands);
+};
+
+// Emit an instruction whose last operand is a jump target that isn't known
+// yet, and return where to patch it in
+const emitJump = (chunk: Chunk, span: Span | undefined, op: Op, ...operands: number[]): number => {
+  emit(chunk, span, op, ...operands, -1);
+  return chunk.code.length - 1;
+};
+
+// Make the jump at `from` land on the next instruction
+const land = (chunk: Chunk, from: number) => {
+  chunk.code[from] = chunk.code.length;
+};
+
+const EMPTY_TABLE = Table(Map<string, Value>());
+
+// Emit the code that pushes the value of `expr`. In tail position, the
+// function that is running returns the value right after. `outer` is the
+// span of the closest node around `expr` that has one.
+const compileInto = (chunk: Chunk, expr: Expr, outer: Span | undefined, tail: boolean): void => {
+  const span = expr.span ?? outer;
+  const sub = (child: Expr, childTail: boolean = false) => compileInto(chunk, child, span, childTail);
+
+  switch (expr.tag) {
+    case 'Dec':
+      return emit(chunk, span, Op.Const, add(chunk.values, Unit(expr.value)));
+    case 'Str':
+      return emit(chunk, span, Op.Const, add(chunk.values, Str(expr.value)));
+    case 'Symbol':
+      return emit(chunk, span, Op.Const, add(chunk.values, Symbol(expr.value)));
+    case 'Name':
+      return emit(chunk, span, Op.LoadName, add(chunk.names, expr));
+    case 'Lam':
+      return emit(chunk, span, Op.MakeClosure, add(chunk.lambdas, expr.value));
+
+    case 'Template':
+      expr.value.exprs.forEach(part => sub(part));
+      return emit(chunk, span, Op.BuildTemplate, add(chunk.templates, expr.value.strings));
+
+    // Spreads are checked as soon as they're computed, like `interpret` does
+    case 'Table':
+      for (const [key, value] of expr.value) {
+        sub(value);
+        if (key === null)
+          emit(chunk, span, Op.CheckTable);
+      }
+      return emit(chunk, span, Op.BuildTable, add(chunk.tables, expr.value.map(([key, _value]) => key)));
+
+    case 'List':
+      for (const {expr: item, spread} of expr.value) {
+        sub(item);
+        if (spread)
+          emit(chunk, span, Op.CheckList);
+      }
+      return emit(chunk, span, Op.BuildList, add(chunk.lists, expr.value.map(({spread}) => spread)));
+
+    case 'App': {
+      const {fun, arg} = expr.value;
+      const op = shortCircuitOperator(fun);
+      if (op === null) {
+        sub(fun);
+        sub(arg);
+        return emit(chunk, span, tail ? Op.TailApply : Op.Apply);
+      }
+      // Unless the operator is shadowed, the left operand decides the result on its own
+      const general = emitJump(chunk, span, Op.ShortCircuit, add(chunk.strings, op.value));
+      sub((fun as Expr & {tag: 'App'}).value.arg);
+      const decided = emitJump(chunk, span, Op.Decide);
+      sub(arg);
+      emit(chunk, span, Op.AsBool);
+      const done = emitJump(chunk, span, Op.Jump);
+      land(chunk, general);
+      sub(fun);
+      sub(arg);
+      emit(chunk, span, tail ? Op.TailApply : Op.Apply);
+      land(chunk, decided);
+      return land(chunk, done);
+    }
+
+    case 'Cond': {
+      sub(expr.value.if);
+      const otherwise = emitJump(chunk, span, Op.JumpUnless);
+      sub(expr.value.then, tail);
+      const done = emitJump(chunk, span, Op.Jump);
+      land(chunk, otherwise);
+      sub(expr.value.else, tail);
+      return land(chunk, done);
+    }
+
+    // The subject stays on the stack until an arm matches
+    case 'Match': {
+      sub(expr.value.subject);
+      const done: number[] = [];
+      for (const {pattern, guard, body} of expr.value.arms) {
+        const next = [emitJump(chunk, span, Op.Match, add(chunk.patterns, pattern))];
+        if (guard !== null) {
+          sub(guard);
+          next.push(emitJump(chunk, span, Op.Guard));
+        }
+        emit(chunk, span, Op.Drop);
+        sub(body, tail);
+        emit(chunk, span, Op.LeaveEnv);
+        done.push(emitJump(chunk, span, Op.Jump));
+        next.forEach(from => land(chunk, from));
+      }
+      emit(chunk, span, Op.NoMatch);
+      return done.forEach(from => land(chunk, from));
+    }
+
+    case 'Let': {
+      const {bindings, body, rec} = expr.value;
+      emit(chunk, span, rec ? Op.EnterShared : Op.EnterLet);
+      for (const {name, value} of bindings) {
+        sub(value);
+        if (rec) {
+          emit(chunk, span, Op.Assign, add(chunk.strings, name));
+          emit(chunk, span, Op.Drop);
+        } else {
+          emit(chunk, span, Op.Bind, add(chunk.strings, name));
+        }
+      }
+      sub(body, tail);
+      return emit(chunk, span, Op.LeaveEnv);
+    }
+
+    // When the last statement binds a name, its value is returned after the
+    // name is bound
+    case 'Block': {
+      const statements = expr.value;
+      if (statements.length === 0)
+        return emit(chunk, span, Op.Const, add(chunk.values, EMPTY_TABLE));
+      emit(chunk, span, Op.EnterShared);
+      for (const [i, {name, expr: statement}] of statements.entries()) {
+        const last = i + 1 === statements.length;
+        sub(statement, last && name === null);
+        if (name !== null)
+          emit(chunk, span, Op.Assign, add(chunk.strings, name));
+        if (!last)
+          emit(chunk, span, Op.Drop);
+      }
+      return emit(chunk, span, Op.LeaveEnv);
+    }
+
+    case 'DefineMacro':
+      sub(expr.value.expander);
+      return emit(chunk, span, Op.DefineMacro, add(chunk.strings, expr.value.name));
+  }
+};
+
+const compileChunk = (expr: Expr, tail: boolean): Chunk => {
+  const chunk = makeChunk();
+  compileInto(chunk, expr, expr.span, tail);
+  emit(chunk, undefined, Op.Return);
+  return chunk;
+};
+
+
+// The compiled bodies of the functions, which are shared by every function
+// made from the same syntax
+const bodies = new WeakMap<Lambda, Chunk>();
+
+const bodyOf = (lambda: Lambda): Chunk => {
+  let rv = bodies.get(lambda);
+  if (rv === undefined) {
+    rv = compileChunk(lambda.expr, true);
+    bodies.set(lambda, rv);
+  }
+  return rv;
+};
+
+
+/// Running
+
+
+// A function that is running, or the code the machine was started with.
+// `saved` are the envs to go back to when the `let`s, blocks and arms that
+// have been entered end.
+type Frame = {
+  chunk: Chunk,
+  pc: number,
+  env: Env,
+  saved: Env[],
+  // The function and the tail calls that have replaced it, `null` for the
+  // code the machine was started with
+  call: RunningCall | null,
+};
+
+
+const ok = (value: Value): Partial<Value> => Ok(value);
+const err = (error: RuntimeError): Partial<Value> => Err(error);
+
+// Add the calls that are running to the trace of the error
+const unwind = (error: RuntimeError, span: Span | undefined, frames: Frame[]): RuntimeError => {
+  let rv = error.span === undefined && span !== undefined ? withSpan(error, span) : error;
+  const calls: StackFrame[] = [];
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const {call} = frames[i];
+    if (call === null)
+      continue;
+    if (rv.span === undefined && call.frame.span !== undefined)
+      rv = withSpan(rv, call.frame.span);
+    calls.push(call.frame, ...call.tailCalls);
+  }
+  return calls.length === 0 ? rv : withFrame(rv, ...calls);
+};
+
+// Run `first` with `stack` as its operands until it returns
+const execute = (first: Frame, stack: Value[], run: Run): Partial<Value> => {
+  const frames = [first];
+  let frame = first;
+  for (;;) {
+    const {chunk, env} = frame;
+    const {code} = chunk;
+    const at = frame.pc;
+    const op: Op = code[at];
+    frame.pc += 1;
+
+    let error: RuntimeError | null = null;
+    switch (op) {
+      case Op.Const:
+        stack.push(chunk.values[code[frame.pc++]]);
+        break;
+
+      case Op.LoadName: {
+        const name = chunk.names[code[frame.pc++]];
+        const value = lookupName(name.value, addressOf(name), env);
+        if (value === null)
+          error = UndefinedName(name.value);
+        else
+          stack.push(value);
+        break;
+      }
+
+      case Op.MakeClosure:
+        stack.push(makeClosure(chunk.lambdas[code[frame.pc++]], env));
+        break;
+
+      case Op.Apply:
+      case Op.TailApply: {
+        const arg = stack.pop()!;
+        const fun = stack.pop()!;
+        const entered = enterFunction(fun, arg, env, chunk.spans[at]);
+        if (!('lambda' in entered)) {
+          if ('err' in entered)
+            error = entered.err;
+          else
+            stack.push(entered.ok);
+          break;
+        }
+        // Only a function can be replaced, not the code the machine was started with
+        const body = bodyOf(entered.lambda);
+        if (op === Op.TailApply && frame.call !== null) {
+          frame.call = tailCall(frame.call, entered.frame);
+          frame.chunk = body;
+          frame.pc = 0;
+          frame.env = entered.env;
+          frame.saved = [];
+          break;
+        }
+        error = countCall(run);
+        if (error !== null)
+          break;
+        frame = {chunk: body, pc: 0, env: entered.env, saved: [], call: {frame: entered.frame, tailCalls: []}};
+        frames.push(frame);
+        break;
+      }
+
+      case Op.Return:
+        if (frame.call !== null)
+          run.depth--;
+        frames.pop();
+        if (frames.length === 0)
+          return ok(stack.pop()!);
+        frame = frames[frames.length - 1];
+        break;
+
+      case Op.Jump:
+        frame.pc = code[frame.pc++];
+        break;
+
+      case Op.JumpUnless: {
+        const target = code[frame.pc++];
+        const condition = stack.pop()!;
+        if (!Bool.is(condition))
+          error = UnexpectedType({expected: 'boolean', got: condition});
+        else if (!condition.value)
+          frame.pc = target;
+        break;
+      }
+
+      case Op.ShortCircuit: {
+        const operator = tryLookupName(chunk.strings[code[frame.pc++]], env);
+        const target = code[frame.pc++];
+        if (operator !== And && operator !== Or)
+          frame.pc = target;
+        else
+          stack.push(Bool(operator === Or));
+        break;
+      }
+
+      case Op.Decide: {
+        const target = code[frame.pc++];
+        const left = asBool(stack.pop()!);
+        const decisive = stack.pop()!;
+        if ('err' in left) {
+          error = left.err;
+        } else if (left.ok === decisive.value) {
+          stack.push(Bool(left.ok));
+          frame.pc = target;
+        }
+        break;
+      }
+
+      case Op.AsBool: {
+        const value = asBool(stack.pop()!);
+        if ('err' in value)
+          error = value.err;
+        else
+          stack.push(Bool(value.ok));
+        break;
+      }
+
+      // Strings are spliced in as they are, everything else is pretty-printed
+      case Op.BuildTemplate: {
+        const strings = chunk.templates[code[frame.pc++]];
+        const parts = stack.splice(stack.length - (strings.length - 1));
+        let rv = strings[0];
+        for (const [i, part] of parts.entries())
+          rv += (Str.is(part) ? part.value : prettyPrint(part)) + strings[i + 1];
+        stack.push(Str(rv));
+        break;
+      }
+
+      // When a key appears more than once, the last value wins
+      case Op.BuildTable: {
+        const keys = chunk.tables[code[frame.pc++]];
+        const values = stack.splice(stack.length - keys.length);
+        const entries: [string, Value][] = [];
+        for (const [i, key] of keys.entries()) {
+          if (key !== null)
+            entries.push([key, values[i]]);
+          else
+            entries.push(...(values[i].value as Map<string, Value>).entries());
+        }
+        stack.push(Table(Map(entries)));
+        break;
+      }
+
+      case Op.CheckTable: {
+        const spread = asTable(stack[stack.length - 1]);
+        if ('err' in spread)
+          error = spread.err;
+        break;
+      }
+
+      case Op.BuildList: {
+        const spreads = chunk.lists[code[frame.pc++]];
+        const values = stack.splice(stack.length - spreads.length);
+        let rv = ImmutableList<Value>();
+        for (const [i, spread] of spreads.entries())
+          rv = spread ? rv.concat(values[i].value as ImmutableList<Value>) : rv.push(values[i]);
+        stack.push(List(rv));
+        break;
+      }
+
+      case Op.CheckList: {
+        const spread = asList(stack[stack.length - 1]);
+        if ('err' in spread)
+          error = spread.err;
+        break;
+      }
+
+      case Op.Match: {
+        const pattern = chunk.patterns[code[frame.pc++]];
+        const target = code[frame.pc++];
+        const bindings = matchPattern(pattern, stack[stack.length - 1], env);
+        if ('err' in bindings) {
+          error = bindings.err;
+        } else if (bindings.ok === null) {
+          frame.pc = target;
+        } else {
+          frame.saved.push(env);
+          frame.env = makeLevel(env, bindings.ok);
+        }
+        break;
+      }
+
+      case Op.Guard: {
+        const target = code[frame.pc++];
+        const condition = stack.pop()!;
+        if (!Bool.is(condition)) {
+          error = UnexpectedType({expected: 'boolean', got: condition});
+        } else if (!condition.value) {
+          frame.env = frame.saved.pop()!;
+          frame.pc = target;
+        }
+        break;
+      }
+
+      case Op.NoMatch:
+        error = NoMatch(stack.pop()!);
+        break;
+
+      case Op.Drop:
+        stack.pop();
+        break;
+
+      case Op.EnterLet:
+        frame.saved.push(env);
+        frame.env = makeLevel(env, []);
+        break;
+
+      case Op.EnterShared:
+        frame.saved.push(env);
+        frame.env = {parent: env, names: Map()};
+        break;
+
+      case Op.Bind: {
+        const name = chunk.strings[code[frame.pc++]];
+        frame.env = bindInLevel(env, name, nameFunction(stack.pop()!, name));
+        break;
+      }
+
+      case Op.Assign: {
+        const name = chunk.strings[code[frame.pc++]];
+        const rv = nameFunction(stack.pop()!, name);
+        env.names = env.names.set(name, rv);
+        stack.push(rv);
+        break;
+      }
+
+      case Op.LeaveEnv:
+        frame.env = frame.saved.pop()!;
+        break;
+
+      case Op.DefineMacro: {
+        const macro = defineMacro(chunk.strings[code[frame.pc++]], stack.pop()!, env);
+        if ('ok' in macro)
+          stack.push(macro.ok);
+        else
+          error = macro.err;
+        break;
+      }
+    }
+
+    if (error !== null)
+      return err(unwind(error, chunk.spans[at], frames));
+  }
+};
+
+
+const start = (first: Frame, stack: Value[], limit: number): Partial<Value> =>
+  startMachine(limit, applyFunction, run => execute(first, stack, run));
+
+// The code a native runs to call a function
+const APPLY = makeChunk();
+emit(APPLY, undefined, Op.Apply);
+emit(APPLY, undefined, Op.Return);
+
+const applyFunction: Applier = (fun, arg, env) =>
+  start({chunk: APPLY, pc: 0, env, saved: [], call: null}, [fun, arg], DEFAULT_RECURSION_LIMIT);
+
+/**
+ * Compile `expr` to bytecode and run it in `env`, which is what `interpret`
+ * does without compiling it
+ */
+export const runBytecode = (expr: Expr, env: Env, recursionLimit: number = DEFAULT_RECURSION_LIMIT): Partial<Value> =>
+  start({chunk: compileChunk(expr, false), pc: 0, env, saved: [], call: null}, [], recursionLimit);
@@ -0,0 +1,467 @@
+/**
+ * This module is the closure compiler, the backend that runs statements
+ * instead of `interpret` when `Interpreter.backend` is `'closures'`.
+ *
+ * A statement is compiled once into a JavaScript function for every node, so
+ * running it doesn't look at the tags of the nodes again, and so is the body
+ * of every function the first time it's called. Names are looked up by the
+ * addresses `./resolver` gives them, like `interpret` does.
+ *
+ * The code doesn't call functions itself: it returns the call, and leaves
+ * the rest of what it has to do on a stack on the heap, to be run with the
+ * value of the call. So only the recursion limit bounds how deep the calls
+ * go, like with `interpret`.
+ *
+ * The code makes the same envs and values as `interpret`, so functions made
+ * by one backend can be called by the other, and it has the same tail calls,
+ * recursion limit and stack traces.
+ */
+
+import { Map } from 'immutable';
+import { impl, matchWildcard, Variant, WILDCARD } from '@practical-fp/union-types';
+import { Expr, Lambda } from './ast';
+import {
+  And,
+  Applier,
+  asBool,
+  asList,
+  asTable,
+  bindInLevel,
+  Bool,
+  countCall,
+  DEFAULT_RECURSION_LIMIT,
+  defineMacro,
+  Entered,
+  enterFunction,
+  Env,
+  List,
+  lookupName,
+  makeClosure,
+  makeLevel,
+  matchPattern,
+  nameFunction,
+  NoMatch,
+  Or,
+  Partial,
+  prettyPrint,
+  Run,
+  RunningCall,
+  RuntimeError,
+  shortCircuitOperator,
+  StackFrame,
+  startMachine,
+  Str,
+  Symbol,
+  Table,
+  tailCall,
+  UndefinedName,
+  UnexpectedType,
+  Unit,
+  Value,
+  withFrame,
+} from './runtime';
+import { addressOf } from './resolver';
+import { Err, Ok } from '../either';
+import { List as ImmutableList } from 'immutable';
+import { Span, withSpan } from '../language';
+
+
+// Code that has to call a function returns the function it has entered
+// instead of running it. A call returned as the last thing a function does
+// replaces the function (a tail call), so it doesn't use up the stack.
+type Step = Partial<Value> | Entered;
+
+type Frame =
+  // The rest of some code, which waits for the value of a call
+  | Variant<'Then', (value: Value) => Step>
+  | Variant<'Call', RunningCall>;
+
+const { Then, Call } = impl<Frame>();
+
+// Code either has a value right away, and leaves the stack like it found it,
+// or it returns a call and leaves the rest of its work on the stack
+type Code = (env: Env, stack: Frame[]) => Step;
+
+// `outer` is the span of the closest node around `expr` that has one
+type Compiler = (expr: Expr, outer: Span | undefined) => Code;
+
+
+const ok = (value: Value): Partial<Value> => Ok(value);
+
+// The innermost expression that fails is where the error happened
+const raise = (error: RuntimeError, span: Span | undefined): Partial<Value> =>
+  Err(error.span === undefined && span !== undefined ? withSpan(error, span) : error);
+
+
+// Run `code`, and `rest` with its value. When `code` returns a call, `rest`
+// waits for its value on the stack, under the frames `code` left there.
+const andThen = (code: Code, env: Env, stack: Frame[], rest: (value: Value) => Step): Step => {
+  const base = stack.length;
+  const step = code(env, stack);
+  if ('ok' in step)
+    return rest(step.ok);
+  if ('lambda' in step)
+    stack.splice(base, 0, Then(rest));
+  return step;
+};
+
+// Run `codes` one after the other, handing their values to `each`, which
+// can stop them with an error, and then run `rest`. A call only pauses the
+// loop, which goes on with the next code once the call has returned.
+const runEach = (
+  codes: readonly Code[],
+  env: Env,
+  stack: Frame[],
+  each: (value: Value, index: number) => Partial<Value> | null,
+  rest: () => Step,
+  from: number = 0,
+): Step => {
+  for (let i = from; i < codes.length; i++) {
+    const base = stack.length;
+    const step = codes[i](env, stack);
+    if ('ok' in step) {
+      const error = each(step.ok, i);
+      if (error !== null)
+        return error;
+      continue;
+    }
+    if ('lambda' in step)
+      stack.splice(base, 0, Then(value => each(value, i) ?? runEach(codes, env, stack, each, rest, i + 1)));
+    return step;
+  }
+  return rest();
+};
+
+
+/// Names
+
+
+// Looking a name up can't call a function
+const compileName = (name: Expr & {tag: 'Name'}, span: Span | undefined): (env: Env) => Partial<Value> => {
+  const address = addressOf(name);
+  return (env: Env) => {
+    const rv = lookupName(name.value, address, env);
+    return rv === null ? raise(UndefinedName(name.value), span) : ok(rv);
+  };
+};
+
+
+/// Functions
+
+
+// The compiled bodies of the functions. Resolved code doesn't depend on where
+// the function is made, so the functions made by `interpret` share them too.
+const bodies = new WeakMap<Lambda, Code>();
+
+const bodyOf = (lambda: Lambda): Code => {
+  let rv = bodies.get(lambda);
+  if (rv === undefined) {
+    rv = compile(lambda.expr, lambda.expr.span);
+    bodies.set(lambda, rv);
+  }
+  return rv;
+};
+
+
+const enter = (fun: Value, arg: Value, env: Env, span: Span | undefined): Step => {
+  const entered = enterFunction(fun, arg, env, span);
+  return 'err' in entered ? raise(entered.err, span) : entered;
+};
+
+
+/// Expressions
+
+
+// Unless the operator is shadowed, `left` decides the result on its own
+const compileShortCircuit = (op: Expr & {tag: 'Name'}, fun: Expr, right: Expr, span: Span | undefined): Code => {
+  const opCode = compileName(op, span);
+  const leftCode = compile((fun as Expr & {tag: 'App'}).value.arg, span);
+  const rightCode = compile(right, span);
+  const application = compileApplication(compile(fun, span), rightCode, span);
+
+  const toBool = (value: Value): Step => {
+    const rv = asBool(value);
+    return 'err' in rv ? raise(rv.err, span) : ok(Bool(rv.ok));
+  };
+
+  return (env, stack) => {
+    const operator = opCode(env);
+    if ('err' in operator || (operator.ok !== And && operator.ok !== Or))
+      return application(env, stack);
+    const decisive = operator.ok === Or;
+    return andThen(leftCode, env, stack, left => {
+      const leftBool = asBool(left);
+      if ('err' in leftBool)
+        return raise(leftBool.err, span);
+      if (leftBool.ok === decisive)
+        return ok(Bool(leftBool.ok));
+      return andThen(rightCode, env, stack, toBool);
+    });
+  };
+};
+
+const compileApplication = (funCode: Code, argCode: Code, span: Span | undefined): Code =>
+  (env, stack) =>
+    andThen(funCode, env, stack, fun =>
+      andThen(argCode, env, stack, arg => enter(fun, arg, env, span)));
+
+
+const checkBool = (condition: Value, span: Span | undefined): Partial<Value> | null =>
+  Bool.is(condition) ? null : raise(UnexpectedType({expected: 'boolean', got: condition}), span);
+
+// The envs are made like `interpret` makes them
+const compileLet = (
+  {bindings, body, rec}: Extract<Expr, {tag: 'Let'}>['value'],
+  span: Span | undefined,
+): Code => {
+  const valueCodes = bindings.map(({value}) => compile(value, span));
+  const bodyCode = compile(body, span);
+
+  const bindFrom = (index: number, letEnv: Env, stack: Frame[]): Step => {
+    if (index === bindings.length)
+      return bodyCode(letEnv, stack);
+    const {name} = bindings[index];
+    return andThen(valueCodes[index], letEnv, stack, value => {
+      if (!rec)
+        return bindFrom(index + 1, bindInLevel(letEnv, name, nameFunction(value, name)), stack);
+      letEnv.names = letEnv.names.set(name, nameFunction(value, name));
+      return bindFrom(index + 1, letEnv, stack);
+    });
+  };
+
+  return (env, stack) => bindFrom(0, rec ? {parent: env, names: Map()} : makeLevel(env, []), stack);
+};
+
+
+const bindLast = (name: string, code: Code): Code =>
+  (blockEnv, stack) =>
+    andThen(code, blockEnv, stack, value => {
+      const rv = nameFunction(value, name);
+      blockEnv.names = blockEnv.names.set(name, rv);
+      return ok(rv);
+    });
+
+
+// Conditions, `match`, `let` and blocks pass the position of the node on to
+// the expression whose value they return
+const compile: Compiler = (expr, outer) => {
+  const span = expr.span ?? outer;
+
+  return matchWildcard(expr, {
+    Dec: value => {
+      const rv = ok(Unit(value));
+      return () => rv;
+    },
+    Str: value => {
+      const rv = ok(Str(value));
+      return () => rv;
+    },
+    Symbol: value => {
+      const rv = ok(Symbol(value));
+      return () => rv;
+    },
+    Name: () => compileName(expr as Expr & {tag: 'Name'}, span),
+    Lam: lambda => (env: Env) => ok(makeClosure(lambda, env)),
+
+    // Strings are spliced in as they are, everything else is pretty-printed
+    Template: ({strings, exprs}) => {
+      const codes = exprs.map(part => compile(part, span));
+      return (env: Env, stack: Frame[]) => {
+        let rv = strings[0];
+        return runEach(codes, env, stack, (part, i) => {
+          rv += (Str.is(part) ? part.value : prettyPrint(part)) + strings[i + 1];
+          return null;
+        }, () => ok(Str(rv)));
+      };
+    },
+
+    // When a key appears more than once, the last value wins
+    Table: entries => {
+      const keys = entries.map(([key]) => key);
+      const codes = entries.map(([_, value]) => compile(value, span));
+      return (env: Env, stack: Frame[]) => {
+        const rv: [string, Value][] = [];
+        return runEach(codes, env, stack, (value, i) => {
+          const key = keys[i];
+          if (key !== null) {
+            rv.push([key, value]);
+            return null;
+          }
+          const spread = asTable(value);
+          if ('err' in spread)
+            return raise(spread.err, span);
+          rv.push(...spread.ok.entries());
+          return null;
+        }, () => ok(Table(Map(rv))));
+      };
+    },
+
+    List: items => {
+      const spreads = items.map(({spread}) => spread);
+      const codes = items.map(({expr: item}) => compile(item, span));
+      return (env: Env, stack: Frame[]) => {
+        let rv = ImmutableList<Value>();
+        return runEach(codes, env, stack, (value, i) => {
+          if (!spreads[i]) {
+            rv = rv.push(value);
+            return null;
+          }
+          const spreadItems = asList(value);
+          if ('err' in spreadItems)
+            return raise(spreadItems.err, span);
+          rv = rv.concat(spreadItems.ok);
+          return null;
+        }, () => ok(List(rv)));
+      };
+    },
+
+    App: ({fun, arg}) => {
+      const op = shortCircuitOperator(fun);
+      if (op !== null)
+        return compileShortCircuit(op, fun, arg, span);
+      return compileApplication(compile(fun, span), compile(arg, span), span);
+    },
+
+    Cond: ({if: test, then: thenExpr, else: elseExpr}) => {
+      const testCode = compile(test, span);
+      const thenCode = compile(thenExpr, span);
+      const elseCode = compile(elseExpr, span);
+      return (env: Env, stack: Frame[]) =>
+        andThen(testCode, env, stack, condition =>
+          checkBool(condition, span) ?? (condition.value ? thenCode(env, stack) : elseCode(env, stack)));
+    },
+
+    Match: ({subject, arms}) => {
+      const subjectCode = compile(subject, span);
+      const armCodes = arms.map(({pattern, guard, body}) => ({
+        pattern,
+        guard: guard === null ? null : compile(guard, span),
+        body: compile(body, span),
+      }));
+
+      const tryArms = (from: number, value: Value, env: Env, stack: Frame[]): Step => {
+        for (let i = from; i < armCodes.length; i++) {
+          const {pattern, guard, body} = armCodes[i];
+          const bindings = matchPattern(pattern, value, env);
+          if ('err' in bindings)
+            return raise(bindings.err, span);
+          if (bindings.ok === null)
+            continue;
+
+          const armEnv = makeLevel(env, bindings.ok);
+          if (guard === null)
+            return body(armEnv, stack);
+          return andThen(guard, armEnv, stack, condition =>
+            checkBool(condition, span)
+            ?? (condition.value ? body(armEnv, stack) : tryArms(i + 1, value, env, stack)));
+        }
+        return raise(NoMatch(value), span);
+      };
+
+      return (env: Env, stack: Frame[]) => andThen(subjectCode, env, stack, value => tryArms(0, value, env, stack));
+    },
+
+    Let: letExpr => compileLet(letExpr, span),
+
+    // When the last statement binds a name, it has to be bound after the
+    // value is computed, so the value isn't returned right away
+    Block: statements => {
+      const init = statements.slice(0, -1);
+      const initCodes = init.map(({expr: statement}) => compile(statement, span));
+      const last = statements.length === 0 ? null : statements[statements.length - 1];
+      const lastCode =
+        last === null ? null
+        : last.name === null ? compile(last.expr, span)
+        : bindLast(last.name, compile(last.expr, span));
+      return (env: Env, stack: Frame[]) => {
+        const blockEnv: Env = {parent: env, names: Map()};
+        if (lastCode === null)
+          return ok(Table(Map<string, Value>()));
+        return runEach(initCodes, blockEnv, stack, (value, i) => {
+          const {name} = init[i];
+          if (name !== null)
+            blockEnv.names = blockEnv.names.set(name, nameFunction(value, name));
+          return null;
+        }, () => lastCode(blockEnv, stack));
+      };
+    },
+
+    DefineMacro: ({name, expander}) => {
+      const expanderCode = compile(expander, span);
+      return (env: Env, stack: Frame[]) =>
+        andThen(expanderCode, env, stack, value => {
+          const macro = defineMacro(name, value, env);
+          return 'ok' in macro ? macro : raise(macro.err, span);
+        });
+    },
+
+    [WILDCARD]: () => {
+      throw new Error(`Can't compile ${expr.tag}`);
+    },
+  });
+};
+
+
+/// Running
+
+
+// Take the frames off the stack, adding the calls to the trace of the error
+const unwind = (error: RuntimeError, stack: Frame[], run: Run): RuntimeError => {
+  let rv = error;
+  const calls: StackFrame[] = [];
+  for (let frame = stack.pop(); frame !== undefined; frame = stack.pop()) {
+    if (frame.tag !== 'Call')
+      continue;
+    run.depth--;
+    if (rv.span === undefined && frame.value.frame.span !== undefined)
+      rv = withSpan(rv, frame.value.frame.span);
+    calls.push(frame.value.frame, ...frame.value.tailCalls);
+  }
+  return calls.length === 0 ? rv : withFrame(rv, ...calls);
+};
+
+// Run `code`, making the calls it returns, until it has a value
+const execute = (code: Code, env: Env, run: Run): Partial<Value> => {
+  const stack: Frame[] = [];
+  let step = code(env, stack);
+  for (;;) {
+    if ('lambda' in step) {
+      const {frame, lambda, env: bodyEnv} = step;
+      const top = stack[stack.length - 1];
+      if (top !== undefined && top.tag === 'Call') {
+        stack[stack.length - 1] = Call(tailCall(top.value, frame));
+      } else {
+        const overflow = countCall(run);
+        if (overflow !== null) {
+          step = raise(overflow, frame.span);
+          continue;
+        }
+        stack.push(Call({frame, tailCalls: []}));
+      }
+      step = bodyOf(lambda)(bodyEnv, stack);
+    } else if ('err' in step) {
+      return Err(unwind(step.err, stack, run));
+    } else {
+      const top = stack.pop();
+      if (top === undefined)
+        return step;
+      if (top.tag === 'Call')
+        run.depth--;
+      else
+        step = top.value(step.ok);
+    }
+  }
+};
+
+const start = (code: Code, env: Env, limit: number): Partial<Value> =>
+  startMachine(limit, applyFunction, run => execute(code, env, run));
+
+const applyFunction: Applier = (fun, arg, env) =>
+  start(() => enter(fun, arg, env, undefined), env, DEFAULT_RECURSION_LIMIT);
+
+/**
+ * Compile `expr` and run it in `env`, which is what `interpret` does without
+ * compiling it
+ */
+export const runCompiled = (expr: Expr, env: Env, recursionLimit: number = DEFAULT_RECURSION_LIMIT): Partial<Value> =>
+  start(compile(expr, expr.span), env, recursionLimit);
@@ -0,0 +1,132 @@
+/**
+ * This module defines structural equality, a total ordering and
+ * hashing for runtime values, so that any two values can be
+ * compared, and values that are equal have the same hash.
+ *
+ * Values of different types are never equal, and they're ordered
+ * by their type first (see `typeOrder`). Functions don't have any
+ * structure we could compare, so they're compared by identity:
+ * the same lambda with the same closure is the same function.
+ */
+
+import { matchExhaustive } from '@practical-fp/union-types';
+import { Value } from './runtime';
+import { dimensionNames } from './units';
+
+
+const typeOrder: Value['tag'][] = ['Bool', 'Unit', 'Str', 'Symbol', 'List', 'Table', 'Fun', 'Native', 'Macro'];
+
+
+// Functions get an arbitrary, but stable, number the first time they're compared
+const _ids = new WeakMap<object, number>();
+let _nextId = 0;
+
+const identityOf = (obj: object): number => {
+  let id = _ids.get(obj);
+  if (id === undefined) {
+    id = _nextId++;
+    _ids.set(obj, id);
+  }
+  return id;
+};
+
+
+const sign = (n: number): number => n < 0 ? -1 : n > 0 ? 1 : 0;
+
+const compareStrings = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+// Compares the items pairwise, and a prefix comes before the longer sequence
+const compareSequences = <T>(a: T[], b: T[], compareItems: (x: T, y: T) => number): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const rv = compareItems(a[i], b[i]);
+    if (rv !== 0)
+      return rv;
+  }
+  return sign(a.length - b.length);
+};
+
+
+/**
+ * Returns -1 if `a` comes before `b`, 1 if it comes after it,
+ * and 0 if they're equal.
+ */
+export const compareValues = (a: Value, b: Value): number => {
+  if (a.tag !== b.tag)
+    return sign(typeOrder.indexOf(a.tag) - typeOrder.indexOf(b.tag));
+
+  // `b` has the same tag, so its value has the same type as the one of `a`
+  const other = <T>(_: T): T => b.value as unknown as T;
+
+  return matchExhaustive(a, {
+    Bool: x => sign(Number(x) - Number(other(x))),
+    Unit: u => {
+      for (const name of dimensionNames) {
+        const rv = u.dim[name].compare(other(u).dim[name]);
+        if (rv !== 0)
+          return sign(rv);
+      }
+      return u.value.cmp(other(u).value);
+    },
+    Str: s => compareStrings(s, other(s)),
+    Symbol: s => compareStrings(s, other(s)),
+    List: list => compareSequences(list.toArray(), other(list).toArray(), compareValues),
+    // Tables are compared as lists of their entries, sorted by key
+    Table: table => {
+      const sortedEntries = (t: typeof table) =>
+        [...t.entries()].sort(([k1, _v1], [k2, _v2]) => compareStrings(k1, k2));
+      return compareSequences(
+        sortedEntries(table),
+        sortedEntries(other(table)),
+        ([k1, v1], [k2, v2]) => compareStrings(k1, k2) || compareValues(v1, v2),
+      );
+    },
+    Fun: f =>
+      sign(identityOf(f.fun) - identityOf(other(f).fun))
+      || sign(identityOf(f.closure) - identityOf(other(f).closure)),
+    Native: n => sign(identityOf(n.fun) - identityOf(other(n).fun)),
+    Macro: expander => compareValues(expander, other(expander)),
+  });
+};
+
+
+export const valuesEqual = (a: Value, b: Value): boolean =>
+  compareValues(a, b) === 0;
+
+
+// Hashes are kept below 2^32, so `h * 31 + x` is still an exact integer
+const HASH_MODULUS = 2 ** 32;
+
+const combine = (h: number, x: number): number =>
+  (h * 31 + x) % HASH_MODULUS;
+
+const hashString = (s: string): number => {
+  let h = 0;
+  for (let i = 0; i < s.length; i++)
+    h = combine(h, s.charCodeAt(i));
+  return h;
+};
+
+/**
+ * An unsigned 32-bit hash of the value. Values that are equal according to
+ * `valuesEqual` have the same hash.
+ */
+export const hashValue = (value: Value): number =>
+  combine(typeOrder.indexOf(value.tag), matchExhaustive(value, {
+    Bool: x => Number(x),
+    Unit: u => {
+      // 0 and -0 are equal, but they aren't printed the same way
+      let h = hashString(u.value.eq(0) ? '0' : u.value.toString());
+      for (const name of dimensionNames)
+        h = combine(h, hashString(u.dim[name].toFraction()));
+      return h;
+    },
+    Str: hashString,
+    Symbol: hashString,
+    List: list => list.reduce((h, item) => combine(h, hashValue(item)), 0),
+    // The order of the keys doesn't matter, so the entries are just added up
+    Table: table => table.reduce((h, v, k) => (h + combine(hashString(k), hashValue(v))) % HASH_MODULUS, 0),
+    Fun: ({fun, closure}) => combine(identityOf(fun), identityOf(closure)),
+    Native: ({fun}) => identityOf(fun),
+    Macro: hashValue,
+  }));
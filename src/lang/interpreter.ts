@@ -1,11 +1,18 @@
 import { Expr, ParseOptions, Prio, Priority } from './ast';
 import * as ast from './ast';
-import { makeParser } from './parser';
+import { describeParseError, findRecoveryPoint, fixityDeclaration, makeParser, unparse } from './parser';
+import { exprToValue, tokenToValue, valueToExpr } from './quote';
+import { runBytecode } from './bytecode';
+import { runCompiled } from './compiler';
+import { expandMacros } from './macros';
+import { optimize } from './optimizer';
+import { resolve } from './resolver';
 import {
   applyFunction,
   asStr,
   asStrOrSymb,
   Bool,
+  DEFAULT_RECURSION_LIMIT,
   Env,
   interpret,
   Native,
@@ -30,19 +37,26 @@ import {
   UnexpectedType,
   Fun,
   asBool,
+  asList,
+  List,
+  nameFunction,
+  And,
+  Or,
+  makeMacro,
 } from './runtime';
-import { Map } from 'immutable';
-import { lex, Tok } from './lexer';
-import { TokenParser, TokenStream } from '../language';
+import { List as ImmutableList, Map, Range } from 'immutable';
+import { DEFAULT_FILE, lex, Tok } from './lexer';
+import { Span, TokenParser, TokenStream } from '../language';
 
-import { Either, Err, Ok } from '../either';
+import { Either, Err, Ok, ParseError } from '../either';
+import { hintOf, mergeErrors } from '../parser';
 import * as Ei from '../either';
-import { dimEq, neutralDimension } from './units';
+import { dimEq, makeUnit, neutralDimension } from './units';
+import { compareValues, valuesEqual } from './equality';
 import Fraction from 'fraction.js';
 import Big from 'big.js';
 
 import * as fs from 'fs';
-import * as util from 'util';
 import { matchWildcard, WILDCARD } from '@practical-fp/union-types';
 
 
@@ -61,11 +75,18 @@ const DEFAULT_PARSER_OPTIONS = {
     '++': Prio(10, 'left'),
     '<<': Prio(3, 'right'),
     '>>': Prio(3, 'left'),
+    '&&': Prio(4, 'right'),
+    '||': Prio(3, 'right'),
     '|>': Prio(2, 'left'),
     '|?': Prio(3, 'right'),
     '$': Prio(1, 'right'),
     '$|': Prio(-1, 'left'),
   },
+  // `not` is weaker than comparisons, but stronger than `&&` and `||`
+  prefixOperators: {
+    '-': {fn: 'negate', strength: 6},
+    'not': {fn: 'not', strength: 4.5},
+  },
   backtickPriority: Prio(20, 'right'),
   defaultPriority: Prio(5, 'left'),
 };
@@ -76,11 +97,16 @@ export class StatefulParser {
   private setOptions: (o: ParseOptions) => void;
   private options: ParseOptions;
 
-  constructor() {
-    this.options = DEFAULT_PARSER_OPTIONS;
+  constructor(options: ParseOptions = DEFAULT_PARSER_OPTIONS) {
+    this.options = options;
     [this.parser, this.setOptions] = makeParser(this.options);
   }
 
+  // A parser with the same options, whose fixity declarations don't affect this one
+  public copy(): StatefulParser {
+    return new StatefulParser(this.options);
+  }
+
   public setPrio(name: string, prio: Priority) {
     this.options = {
       ...this.options,
@@ -96,17 +122,73 @@ export class StatefulParser {
     return this.parser.parse(stream);
   }
 
-  public parseMultiline(stream: TokenStream<Tok>): Either<LangError, Expr[]> {
+  // A fixity declaration is applied right away, so that it affects how
+  // the expressions after it are parsed. It doesn't produce an expression.
+  private parseStatement(stream: TokenStream<Tok>): Either<ParseError, readonly [Expr | null, TokenStream<Tok>]> {
+    if (stream[0].type !== 'infix')
+      return this.parse(stream);
+    return Ei.map(fixityDeclaration.parse(stream), ([{operator, priority}, rest]) => {
+      this.setPrio(operator, priority);
+      return [null, rest] as const;
+    });
+  }
+
+  public parseMultiline(tokens: TokenStream<Tok>): Either<LangError, Expr[]> {
+    const { expressions, errors } = this.parseRecovering(tokens, 1);
+    if (errors.length > 0)
+      return Err(errors[0]);
+    return Ok(expressions);
+  }
+
+  /**
+   * Parse as many expressions as possible. After a parse error, skip to the
+   * next `;` or the end of a bracketed group and carry on from there, until
+   * `maxErrors` errors have been collected.
+   */
+  public parseRecovering(
+    tokens: TokenStream<Tok>,
+    maxErrors: number = Infinity,
+  ): { expressions: Expr[], errors: LangError[] } {
     const expressions: Expr[] = [];
+    const errors: LangError[] = [];
+    let stream = tokens;
     let expr;
-    while (stream.length !== 0) {
-      const parsedE = this.parse(stream);
-      if ('err' in parsedE)
-        return Err({ type: 'parseError', msg: parsedE.err.msg });
+    // The previous expression may have stopped right where the next one fails
+    let hint: ParseError | undefined;
+    let previousStart = 0;
+    while (stream.length !== 0 && errors.length < maxErrors) {
+      const parsedE = this.parseStatement(stream);
+      if ('err' in parsedE) {
+        const error = mergeErrors(hint, parsedE.err);
+        errors.push({ type: 'parseError', ...describeParseError(tokens, error) });
+
+        let start = tokens.length - stream.length;
+        // If we couldn't even start this expression, the previous one must
+        // have been cut short, like `1 +` in `1 + ; 2`
+        if (
+          hint !== undefined && hint.remaining !== undefined && hint.remaining <= stream.length
+          && parsedE.err.remaining === stream.length
+        ) {
+          expressions.pop();
+          start = previousStart;
+        }
+
+        const errorAt = error.remaining === undefined ? start : tokens.length - error.remaining;
+        stream = tokens.slice(findRecoveryPoint(tokens, start, errorAt));
+        hint = undefined;
+        continue;
+      }
+      const exprStart = tokens.length - stream.length;
       [expr, stream] = parsedE.ok;
+      if (expr === null) {
+        hint = undefined;
+        continue;
+      }
+      previousStart = exprStart;
+      hint = hintOf(parsedE);
       expressions.push(expr);
     }
-    return Ok(expressions);
+    return { expressions, errors };
   }
 }
 
@@ -114,7 +196,7 @@ export class StatefulParser {
 
 export type LangError =
   | { type: 'lexError', msg: string }
-  | { type: 'parseError', msg: string }
+  | { type: 'parseError', msg: string, span?: Span }
   | { type: 'runtimeError', err: RuntimeError }
   ;
 
@@ -127,8 +209,27 @@ export interface IOHandle {
 }
 
 
+// `'tree'` runs statements with `interpret`, which walks their syntax trees,
+// `'closures'` compiles them to JavaScript functions first, see `./compiler`,
+// and `'bytecode'` compiles them to bytecode for a stack machine, see `./bytecode`
+export type Backend = 'tree' | 'closures' | 'bytecode';
+
+const BACKENDS: Record<Backend, (expr: Expr, env: Env, recursionLimit: number) => Partial<Value>> = {
+  tree: interpret,
+  closures: runCompiled,
+  bytecode: runBytecode,
+};
+
+
 export class Interpreter {
   public env: Env;
+  public readonly file: string;
+  // Simplify statements before they run, see `./optimizer`
+  public optimizing = false;
+  // How many calls can run at once before a `StackOverflow` error. Tail calls don't count.
+  public recursionLimit = DEFAULT_RECURSION_LIMIT;
+  public backend: Backend = 'tree';
+  private builtins: Map<string, Value>;
   private location: string;
   private stParser: StatefulParser;
   private ioHandle: IOHandle;
@@ -138,28 +239,48 @@ export class Interpreter {
     parentEnv: Env | null = null,
     parser: StatefulParser | null = null,
     location: string | null = null,
+    file: string | null = null,
   ) {
     this.ioHandle = ioHandle;
     this.stParser = parser || new StatefulParser();
     this.location = location || process.cwd();
+    this.file = file || DEFAULT_FILE;
     this.env = makeEnv(this.envH, parentEnv);
+    this.builtins = this.env.names;
+  }
+
+  // Macros are looked up when the statement is about to run,
+  // so they can be defined by the statements before it
+  public expand(expr: Expr): Either<LangError, Expr> {
+    const rv = expandMacros(expr, this.env);
+    if ('ok' in rv)
+      return Ok(rv.ok);
+    return Err({ type: 'runtimeError', err: rv.err });
+  }
+
+  // Names get their addresses last, see `./resolver`
+  public prepare(expr: Expr): Either<LangError, Expr> {
+    return Ei.map(
+      this.expand(expr),
+      expanded => resolve(this.optimizing ? optimize(expanded, this.env, this.builtins) : expanded)
+    );
   }
 
   public runAst(expr: Expr): Either<LangError, Value> {
-    const rv = interpret(expr, this.env);
+    const rv = BACKENDS[this.backend](expr, this.env, this.recursionLimit);
     if ('ok' in rv)
       return Ok(rv.ok);
     return Err({ type: 'runtimeError', err: rv.err });
   }
 
   public runLine(line: string): Either<LangError, Value> {
-    const tokens = lex(line);
+    const tokens = lex(line, {file: this.file});
     if (typeof tokens === 'string')
       return Err({ type: 'lexError', msg: tokens });
 
     const parsedE = this.stParser.parse(tokens);
     if ('err' in parsedE)
-      return Err({ type: 'parseError', msg: parsedE.err.msg });
+      return Err({ type: 'parseError', ...describeParseError(tokens, parsedE.err) });
     const [expr, remainingTokens] = parsedE.ok;
     if (remainingTokens.length !== 0) {
       const parsedTokens = tokens.slice(0, -remainingTokens.length);
@@ -168,11 +289,12 @@ export class Interpreter {
       return Err({
         type: 'parseError',
         msg: `I have parsed ${parsedPart} but there's still a leftover: ${extraPart}.\n`
-             + `Perhaps you forgot an opening (, [ or {, or to write a function body?`
+             + `Perhaps you forgot an opening (, [ or {, or to write a function body?`,
+        span: remainingTokens[0].span,
       });
     }
 
-    return this.runAst(expr);
+    return Ei.flatMap(this.prepare(expr), prepared => this.runAst(prepared));
   }
 
   public runMultiline(source: string): Either<LangError, Value[]> {
@@ -182,7 +304,7 @@ export class Interpreter {
     this.runMultilineWithCallback(
       source,
       value => ok.push(value),
-      e => err = e,
+      e => err = err ?? e,
     );
 
     if (err !== null)
@@ -198,7 +320,7 @@ export class Interpreter {
     this.runMultilineWithCallback(
       source,
       () => {},
-      e => err = e,
+      e => err = err ?? e,
     );
 
     return err;
@@ -211,7 +333,7 @@ export class Interpreter {
     this.runMultilineWithCallback(
       source,
       v => ok = v,
-      e => err = e,
+      e => err = err ?? e,
     );
 
     if (err !== null)
@@ -223,26 +345,30 @@ export class Interpreter {
     return {ok};
   }
 
-  public runMultilineWithCallback(source: string, onValue: (v: Value) => void, onError: (e: LangError) => void): void {
-    source = source.trim();
-
-    const stream = lex(source);
+  /**
+   * Run the statements in the source code one by one, until one of them
+   * fails. Nothing runs if the code can't be lexed or parsed, and then every
+   * lexing and parsing error is passed to `onError`, in order.
+   */
+  public runMultilineWithCallback(
+    source: string,
+    onValue: (v: Value) => void,
+    onError: (e: LangError) => void,
+  ): void {
+    const stream = lex(source, {file: this.file});
     if (typeof stream === 'string') {
-      onError({ type: 'lexError', msg: stream })
+      onError({ type: 'lexError', msg: stream });
       return;
     }
 
-    const parsed = this.stParser.parseMultiline(stream);
-
-    if ('err' in parsed) {
-      onError(parsed.err);
+    const { expressions, errors } = this.stParser.parseRecovering(stream);
+    if (errors.length > 0) {
+      errors.forEach(onError);
       return;
     }
 
-    const expressions = parsed.ok
-
     for (const expr of expressions) {
-      const maybeValue = this.runAst(expr);
+      const maybeValue = Ei.flatMap(this.prepare(expr), prepared => this.runAst(prepared));
       if ('err' in maybeValue) {
         onError(maybeValue.err);
         return;
@@ -403,7 +529,11 @@ const ModuleIO = (h: EnvHandle) =>_makeModule('IO', Map({
           h.deleteName(varName);
           return NativeOk(
             `(IO:define ${prettyPrint(s)})`,
-            varValue => { h.setName(varName, varValue); return varValue; }
+            varValue => {
+              const named = nameFunction(varValue, varName);
+              h.setName(varName, named);
+              return named;
+            }
           );
         }
       )
@@ -432,6 +562,12 @@ const ModuleIO = (h: EnvHandle) =>_makeModule('IO', Map({
     }
   ),
 
+  // Fails with the given value, which `IO:try` reports as the details of the error
+  'fail': Native({
+    name: 'IO:fail',
+    fun: v => Err(Other(v)),
+  }),
+
   'exit': NativeOk(
     'IO:exit',
     () => {
@@ -474,35 +610,51 @@ const _envToValue = (env: Env | null, includeGlobals: boolean): Value => {
   }));
 };
 
+// Lexing and parsing errors become runtime errors, which `IO:try` can catch
+const _syntaxError = (error: LangError): RuntimeError =>
+  error.type === 'runtimeError' ? error.err : Other(Str(`${error.type}: ${error.msg}`));
+
+const _globalEnv = (env: Env): Env =>
+  env.parent === null ? env : _globalEnv(env.parent);
+
+// See `./quote` for how the syntax is represented
 const ModuleRefl = (h: EnvHandle) => _makeModule('Refl', Map({
   'lex': Native({
-    name: 'lex',
-    fun: (v, e) =>
-      Ei.map(asStr(v), source => {
-        const stream  = lex(source);
-        if (typeof stream === 'string') {
-          h.io.writeLine('Error: ' + stream);
-        } else {
-          for (const tok of stream)
-            h.io.writeLine(`${tok.type} @${tok.position}: ${tok.content}`);
-        }
-        return unit;
+    name: 'Refl:lex',
+    fun: v =>
+      Ei.flatMap(asStr(v), source => {
+        const stream = lex(source);
+        if (typeof stream === 'string')
+          return Err(_syntaxError({type: 'lexError', msg: stream}));
+        return Ok(List(ImmutableList(stream.map(tokenToValue))));
       })
   }),
+  // Parses a single expression, which can be a `do` block. The operators
+  // declared in the source code only apply to it.
   'parse': Native({
-    name: 'parse',
-    fun: (v, e) =>
-      Ei.map(asStr(v), source => {
-        const stream  = lex(source);
-        if (typeof stream === 'string') {
-          h.io.writeLine('Error: ' + stream);
-        } else {
-          const parsed = h.parser.parseMultiline(stream);
-          h.io.writeLine(util.inspect(parsed, {depth: null}));
-        }
-        return unit;
+    name: 'Refl:parse',
+    fun: v =>
+      Ei.flatMap(asStr(v), source => {
+        const stream = lex(source);
+        if (typeof stream === 'string')
+          return Err(_syntaxError({type: 'lexError', msg: stream}));
+        const parsed = h.parser.copy().parseMultiline(stream);
+        if ('err' in parsed)
+          return Err(_syntaxError(parsed.err));
+        if (parsed.ok.length !== 1)
+          return Err(NotInDomain({value: v, explanation: 'expected a single expression'}));
+        return Ok(exprToValue(parsed.ok[0]));
       })
   }),
+  'unparse': Native({
+    name: 'Refl:unparse',
+    fun: v => Ei.map(valueToExpr(v), expr => Str(unparse(expr))),
+  }),
+  // `Refl:eval {x: 1} ast` evaluates `ast` with the globals and `x`
+  'eval': _binOp('Refl:eval', asTable, valueToExpr, (names, expr, env) =>
+    interpret(expr, {parent: _globalEnv(env), names})),
+  // `:name .= Refl:makeMacro f` is the same as `macro name f`
+  'makeMacro': Native({name: 'Refl:makeMacro', fun: makeMacro}),
   'get_closure': Native({
     name: 'get_closure',
     fun: (v, e) =>
@@ -532,6 +684,121 @@ const ModuleSym = _makeModule('Sym', Map({
 }));
 
 
+const asIndex = (v: Value): Partial<number> =>
+  Ei.flatMap(asNeutral(v), n =>
+    n.round().eq(n)
+      ? Ok(n.toNumber())
+      : Err(NotInDomain({value: v, explanation: 'expected an integer'})));
+
+
+const _orderedTypes: {[tag in Value['tag']]?: string} = {Unit: 'unit', Str: 'string', Symbol: 'symbol'};
+
+// `compare` puts any two values in order, but `<` and `List:sort` only
+// accept numbers of the same dimension, strings or symbols
+const _compareOrdered = (a: Value, b: Value): Partial<number> => {
+  const expected = _orderedTypes[a.tag];
+  if (expected === undefined)
+    return Err(UnexpectedType({expected: Object.values(_orderedTypes).join('|'), got: a}));
+  if (a.tag !== b.tag)
+    return Err(UnexpectedType({expected, got: b}));
+  if (Unit.is(a) && Unit.is(b) && !dimEq(a.value.dim, b.value.dim))
+    return Err(DimensionMismatch({left: a.value.dim, right: b.value.dim}));
+  return Ok(compareValues(a, b));
+};
+
+const _orderOp = (name: string, test: (comparison: number) => boolean): Value =>
+  _binOpId(name, (a, b) => Ei.map(_compareOrdered(a, b), c => Bool(test(c))));
+
+
+const ModuleList = _makeModule('List', Map({
+  'map': _binOp('List:map', asAny, asList, (f, list, env) => {
+    const rv: Value[] = [];
+    for (const item of list) {
+      const mapped = applyFunction(f, item, env);
+      if ('err' in mapped)
+        return mapped;
+      rv.push(mapped.ok);
+    }
+    return Ok(List(ImmutableList(rv)));
+  }),
+
+  'filter': _binOp('List:filter', asAny, asList, (predicate, list, env) => {
+    const rv: Value[] = [];
+    for (const item of list) {
+      const keep = Ei.flatMap(applyFunction(predicate, item, env), asBool);
+      if ('err' in keep)
+        return keep;
+      if (keep.ok)
+        rv.push(item);
+    }
+    return Ok(List(ImmutableList(rv)));
+  }),
+
+  // List:fold f initial list = f (f (f initial x1) x2) x3
+  'fold': NativeOk(
+    'List:fold',
+    f => _binOp(`List:fold ${prettyPrint(f)}`, asAny, asList, (initial, list, env) => {
+      let acc = initial;
+      for (const item of list) {
+        const step = Ei.flatMap(applyFunction(f, acc, env), g => applyFunction(g, item, env));
+        if ('err' in step)
+          return step;
+        acc = step.ok;
+      }
+      return Ok(acc);
+    })
+  ),
+
+  'length': Native({
+    name: 'List:length',
+    fun: listV => Ei.map(asList(listV), list => Unit(list.size))
+  }),
+
+  // Negative indices count from the end, like in `slice`
+  'get': _binOp('List:get', asIndex, asList, (index, list) => {
+    const i = index < 0 ? index + list.size : index;
+    if (i < 0 || i >= list.size)
+      return Err(NotInDomain({
+        value: Unit(index),
+        explanation: `index out of range for a list of length ${list.size}`,
+      }));
+    return Ok(list.get(i)!);
+  }),
+
+  'slice': _binOp('List:slice', asIndex, asIndex, (start, end) => Ok(Native({
+    name: `(List:slice ${start} ${end})`,
+    fun: listV => Ei.map(asList(listV), list => List(list.slice(start, end)))
+  }))),
+
+  'concat': _binOp('List:concat', asList, asList, (a, b) => Ok(List(a.concat(b)))),
+
+  'sort': Native({
+    name: 'List:sort',
+    fun: listV => Ei.flatMap(asList(listV), list => {
+      let error: RuntimeError | null = null;
+      const sorted = list.sort((a, b) => {
+        const rv = _compareOrdered(a, b);
+        if ('err' in rv) {
+          error = error || rv.err;
+          return 0;
+        }
+        return rv.ok;
+      });
+      return error === null ? Ok(List(sorted)) : Err(error);
+    })
+  }),
+
+  'zip': _binOp('List:zip', asList, asList, (a, b) =>
+    Ok(List(a.zipWith((x, y) => List(ImmutableList([x, y])), b)))
+  ),
+
+  // The end is not included: `List:range 0 3` is [0, 1, 2]
+  'range': _binOp('List:range', asIndex, asIndex, (start, end) =>
+    Ok(List(ImmutableList(Range(start, Math.max(start, end))).map(n => Unit(n))))
+  ),
+}));
+
+
 const _chain = NativeOk('Imp:chain', () => _chain);
 
 const ModuleImp = _makeModule('Imp', Map({
@@ -639,38 +906,6 @@ const makeEnv = (h: EnvHandle, parent: Env | null = null): Env => {
     }))
   );
 
-  const _weakEquality = (a: Value, b: Value): boolean => {
-    if (a.tag > b.tag)
-      return _weakEquality(b, a);
-
-    return matchWildcard(a, {
-      Str: v => b.tag === 'Str' && b.value === v,
-
-      Unit: u => b.tag === 'Unit' && u.equals(b.value),
-
-      Symbol: s => b.tag === 'Symbol' && b.value === s,
-
-      Bool: x => b.tag === 'Bool'  && b.value === x,
-
-      Table: aTable => {
-        if (b.tag !== 'Table')
-          return false;
-
-        const bTable = b.value;
-
-        if ([...aTable.keys()].sort() !== [...bTable.keys()].sort())
-          return false;
-
-        for (const [k, v] of aTable.entries())
-          if (!_weakEquality(v, bTable.get(k)!))
-            return false;
-        return true;
-      },
-
-      [WILDCARD]: () => false,
-    });
-  }
-
   return {
     parent,
     names: Map({
@@ -686,6 +921,11 @@ const makeEnv = (h: EnvHandle, parent: Env | null = null): Env => {
           return Err(DimensionMismatch({left: a.dim, right: b.dim}));
         return Ok(Unit(rv));
       }),
+      // Subtracting from zero, so that `-0` is printed as `0`
+      'negate': Native({
+        name: 'negate',
+        fun: v => Ei.map(asUnit(v), u => Unit(makeUnit(0, u.dim).sub(u)!)),
+      }),
       '*': _binOp('*', asUnit, asUnit, (a, b) => Ok(Unit(a.mul(b)))),
       '/': _binOp('/', asUnit, asUnit, (a, b) => {
         const rv = a.div(b);
@@ -711,32 +951,29 @@ const makeEnv = (h: EnvHandle, parent: Env | null = null): Env => {
           }));
         return Ok(Unit(rv));
       }),
-      '<': _binOp('<', asUnit, asUnit, (a, b) => {
-        if (!dimEq(a.dim, b.dim))
-          return Err(DimensionMismatch({left: a.dim, right: b.dim}));
-        return Ok(Bool(a.value.lt(b.value)));
-      }),
-      '>': _binOp('>', asUnit, asUnit, (a, b) => {
-        if (!dimEq(a.dim, b.dim))
-          return Err(DimensionMismatch({left: a.dim, right: b.dim}));
-        return Ok(Bool(a.value.gt(b.value)));
-      }),
-      '<=': _binOp('<=', asUnit, asUnit, (a, b) => {
-        if (!dimEq(a.dim, b.dim))
-          return Err(DimensionMismatch({left: a.dim, right: b.dim}));
-        return Ok(Bool(a.value.lte(b.value)));
-      }),
-      '>=': _binOp('>=', asUnit, asUnit, (a, b) => {
-        if (!dimEq(a.dim, b.dim))
-          return Err(DimensionMismatch({left: a.dim, right: b.dim}));
-        return Ok(Bool(a.value.gte(b.value)));
+      '<': _orderOp('<', c => c < 0),
+      '>': _orderOp('>', c => c > 0),
+      '<=': _orderOp('<=', c => c <= 0),
+      '>=': _orderOp('>=', c => c >= 0),
+
+      '=': _binOpId('=', (a, b) => Ok(Bool(valuesEqual(a, b)))),
+      '!=': _binOpId('!=', (a, b) => Ok(Bool(!valuesEqual(a, b)))),
+      // `~=` is the name `=` had before it worked for every value
+      '~=': _binOpId('~=', (a, b) => Ok(Bool(valuesEqual(a, b)))),
+      // -1, 0 or 1, depending on whether `a` comes before `b`, is equal to it, or comes after it
+      'compare': _binOpId('compare', (a, b) => Ok(Unit(compareValues(a, b)))),
+
+      '&&': And,
+      '||': Or,
+      'not': Native({
+        name: 'not',
+        fun: v => Ei.map(asBool(v), b => Bool(!b)),
       }),
 
-      '~=': _binOp('~=', asAny, asAny, (a, b) => Ok(Bool(_weakEquality(a, b)))),
-
       '.=': _binOp('.=', asSymb, asAny, (name, value, env) => {
-        h.setName(name, value);
-        return {ok: value};
+        const named = nameFunction(value, name);
+        h.setName(name, named);
+        return {ok: named};
       }),
 
       'meters': Native({
@@ -770,6 +1007,8 @@ const makeEnv = (h: EnvHandle, parent: Env | null = null): Env => {
 
       'Sym': ModuleSym,
 
+      'List': ModuleList,
+
       'Refl': ModuleRefl(h),
 
       'IO': ModuleIO(h),
@@ -1,5 +1,6 @@
-import { TokenStream } from '../language';
+import { Span, Token, TokenStream } from '../language';
 import { ColorHandle } from './color';
+import { decodeString } from './strings';
 
 export type Tok =
   | 'name'
@@ -16,9 +17,23 @@ export type Tok =
   | 'backtick'
   | 'string1'
   | 'string2'
+  | 'string2start'
+  | 'string2mid'
+  | 'string2end'
   | 'if'
   | 'then'
   | 'else'
+  | 'match'
+  | 'with'
+  | 'let'
+  | 'rec'
+  | 'in'
+  | 'where'
+  | 'do'
+  | 'infix'
+  | 'macro'
+  | 'arrow'
+  | 'bar'
   | 'dot'
   | 'ws'
   | 'semicolon'
@@ -43,6 +58,15 @@ const re = makeRegexp(
   ['if',        /if\b/                         ],
   ['then',      /then\b/                       ],
   ['else',      /else\b/                       ],
+  ['match',     /match\b/                      ],
+  ['with',      /with\b/                       ],
+  ['let',       /let\b/                        ],
+  ['rec',       /rec\b/                        ],
+  ['in',        /in\b/                         ],
+  ['where',     /where\b/                      ],
+  ['do',        /do\b/                         ],
+  ['infix',     /infix[lr]?\b/                 ],
+  ['macro',     /macro\b/                      ],
   ['ws',        /\s+|#.*\n?/                   ],
   ['lp',        /\(/                           ],
   ['rp',        /\)/                           ],
@@ -53,44 +77,179 @@ const re = makeRegexp(
   ['col',       /:/                            ],
   ['comma',     /,/                            ],
   ['name',      /(?![0-9?!])[a-zA-Z_0-9?!]+/   ],
-  ['dec',       /[-]?\d+(\.\d+)?(e[-+]?\d+)?/  ],
+  ['dec',       /\d+(\.\d+)?(e[-+]?\d+)?/      ],
   ['dot',       /\.(?=[^-+=*/%!|&^$><?.])/     ],
+  ['arrow',     /->(?![-~+=*/%!|&^$><?.])/     ],
+  ['bar',       /\|(?![-~+=*/%!|&^$><?.])/     ],
   ['op',        /[-~+=*/%!|&^$><?.]+/          ],
   ['backtick',  /`/                            ],
   ['string1',   /'(?:\\.|[^'])*'/              ],
-  ['string2',   /"(?:\\.|[^"])*"/              ],
   ['semicolon', /;/                            ],
 );
 
 
-type LexOptions = { includeWs: boolean };
+export const DEFAULT_FILE = '<input>';
 
-export const lex = (src: string, options: LexOptions = { includeWs: false }): string | TokenStream<Tok> => {
-  const tokens: TokenStream<Tok> = [];
-  let latestPos = 0;
-  for (const m of src.matchAll(re)) {
-    const {k, v} = getGroup(m);
+type LexOptions = { includeWs?: boolean, file?: string };
 
-    if (latestPos < m.index!)
-      return `I don't understand: ${src.slice(latestPos, m.index)}`;
+/**
+ * Find the end of a literal part of a double-quoted string. The part starts
+ * at `start` (either with the opening quote or with the `}` that closes an
+ * interpolated expression), and it ends right after the closing quote or
+ * the `{` that opens the next interpolated expression.
+ */
+const scanStringPart = (src: string, start: number): number | undefined => {
+  const unicodeEscape = /\\u\{[0-9a-fA-F]*\}/y;
+  let i = start + 1;
+  while (i < src.length) {
+    const c = src[i];
+    unicodeEscape.lastIndex = i;
+    if (unicodeEscape.test(src))
+      i = unicodeEscape.lastIndex;
+    else if (c === '\\')
+      i += 2;
+    else if (c === '"' || c === '{')
+      return i + 1;
+    else
+      i++;
+  }
+  return undefined;
+};
+
+const stringPartType = (opener: string, closer: string): Tok =>
+  opener === '"'
+    ? (closer === '"' ? 'string2' : 'string2start')
+    : (closer === '"' ? 'string2end' : 'string2mid');
+
+
+type Interpolation = { depth: number, span: Span };
+
+export const lex = (src: string, options: LexOptions = {}): string | TokenStream<Tok> => {
+  const { includeWs = false, file = DEFAULT_FILE } = options;
+  const tokens: Token<Tok>[] = [];
+  // Interpolated expressions we're currently inside of, innermost last.
+  // `depth` counts the unclosed `{` in the expression itself.
+  const interpolations: Interpolation[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  while (pos < src.length) {
+    const innermost = interpolations[interpolations.length - 1];
+    let k: Tok;
+    let v: string;
+    if (src[pos] === '"' || (src[pos] === '}' && innermost?.depth === 0)) {
+      const end = scanStringPart(src, pos);
+      if (end === undefined)
+        return `at line ${line}, col ${pos - lineStart + 1}: unterminated string`;
+      v = src.slice(pos, end);
+      k = stringPartType(v[0], v[v.length - 1]);
+    } else {
+      re.lastIndex = pos;
+      const m = re.exec(src);
+      if (m === null)
+        return `I don't understand: ${src.slice(pos)}`;
+      if (m.index !== pos)
+        return `I don't understand: ${src.slice(pos, m.index)}`;
+      ({k, v} = getGroup(m) as {k: Tok, v: string});
+      if (innermost !== undefined && k === 'lbr')
+        innermost.depth++;
+      if (innermost !== undefined && k === 'rbr')
+        innermost.depth--;
+    }
+
+    const span: Span = {file, start: pos, end: pos + v.length, line, col: pos - lineStart + 1};
+
+    if (k === 'string2start')
+      interpolations.push({depth: 0, span});
+    if (k === 'string2end')
+      interpolations.pop();
 
-    if (!['ws'].includes(k) || options.includeWs)
-      // @ts-ignore
-      tokens.push({type: k, position: m.index, content: v})
-    latestPos = m.index! + v.length;
+    if (k.startsWith('string')) {
+      const decoded = decodeString(v);
+      if ('err' in decoded) {
+        const before = v.slice(0, decoded.err.offset);
+        const errorLine = line + before.split('\n').length - 1;
+        const errorCol = before.includes('\n')
+          ? before.length - before.lastIndexOf('\n')
+          : span.col + before.length;
+        return `at line ${errorLine}, col ${errorCol}: ${decoded.err.msg}`;
+      }
+    }
+
+    if (k !== 'ws' || includeWs)
+      tokens.push({type: k, position: pos, content: v, span});
+    pos += v.length;
+
+    const lastNewline = v.lastIndexOf('\n');
+    if (lastNewline !== -1) {
+      line += v.split('\n').length - 1;
+      lineStart = span.start + lastNewline + 1;
+    }
+  }
+
+  if (interpolations.length > 0) {
+    const {span} = interpolations[interpolations.length - 1];
+    return `at line ${span.line}, col ${span.col}: unterminated string`;
   }
-  if (latestPos !== src.length)
-    return `I don't understand: ${src.slice(latestPos)}`;
 
   return tokens;
 };
 
 
+export const describeTok = (tokenType: Tok): string => ({
+  'if': '`if`',
+  'then': '`then`',
+  'else': '`else`',
+  'match': '`match`',
+  'with': '`with`',
+  'let': '`let`',
+  'rec': '`rec`',
+  'in': '`in`',
+  'where': '`where`',
+  'do': '`do`',
+  'infix': '`infix`, `infixl` or `infixr`',
+  'macro': '`macro`',
+  'arrow': '`->`',
+  'bar': '`|`',
+  'ws': 'whitespace',
+  'lp': '`(`',
+  'rp': '`)`',
+  'lsq': '`[`',
+  'rsq': '`]`',
+  'lbr': '`{`',
+  'rbr': '`}`',
+  'col': '`:`',
+  'semicolon': '`;`',
+  'comma': '`,`',
+  'name': 'a name',
+  'dec': 'a number',
+  'dot': '`.`',
+  'op': 'an operator',
+  'backtick': 'a backtick',
+  'string1': 'a string',
+  'string2': 'a string',
+  'string2start': 'a string',
+  'string2mid': 'the rest of a string',
+  'string2end': 'the rest of a string',
+}[tokenType]);
+
+
 // @ts-ignore
 const tokenColor = (tokenType: Tok): keyof ColorHandle => ({
   'if': 'keyword',
   'then': 'keyword',
   'else': 'keyword',
+  'match': 'keyword',
+  'with': 'keyword',
+  'let': 'keyword',
+  'rec': 'keyword',
+  'in': 'keyword',
+  'where': 'keyword',
+  'do': 'keyword',
+  'infix': 'keyword',
+  'macro': 'keyword',
+  'arrow': 'punctuation',
+  'bar': 'punctuation',
   'ws': 'comment',
   'lp': 'punctuation',
   'rp': 'punctuation',
@@ -107,7 +266,10 @@ const tokenColor = (tokenType: Tok): keyof ColorHandle => ({
   'op': 'keyword',
   'backtick': 'keyword',
   'string1': 'str',
-  'string2': 'str'
+  'string2': 'str',
+  'string2start': 'str',
+  'string2mid': 'str',
+  'string2end': 'str',
 }[tokenType]);
 
 
@@ -0,0 +1,208 @@
+/**
+ * This module expands macros, after a statement is parsed and before it runs.
+ *
+ * In a call like `unless done (IO:log "more")`, where `unless` is a global
+ * name bound to a macro (see `macro` and `Refl:makeMacro`), the macro gets
+ * the syntax of its arguments as data (see `./quote`), and the call is
+ * replaced with the syntax it returns. The replacement is expanded again, so macros can use macros.
+ *
+ * Expansion is hygienic: the names a macro binds itself, like `tmp` in
+ * `let tmp = x in ...`, are renamed, so that they can't capture the names
+ * used by its arguments. A name that comes from the arguments stays as it is,
+ * so a macro can still bind a name chosen by its caller, like `x` in
+ * `for x xs (x * 2)`.
+ */
+
+import * as ast from './ast';
+import { Expr, makeApp } from './ast';
+import { isExpr, Node, scopedChildren, withChildren } from './visitor';
+import {
+  applyFunction, Env, Fun, List, Macro, Native, NotInDomain, Other, Partial, RuntimeError,
+  Str, Symbol, Table, tryLookupName, Value, withFrame,
+} from './runtime';
+import { exprToValue, valueToExpr } from './quote';
+import { withSpan } from '../language';
+import { Err, Ok } from '../either';
+import * as Ei from '../either';
+import { Map } from 'immutable';
+
+
+// A macro that keeps expanding into itself would never stop otherwise
+const MAX_DEPTH = 100;
+
+
+const traverse = <A, B>(items: readonly A[], f: (item: A) => Partial<B>): Partial<B[]> => {
+  const rv: B[] = [];
+  for (const item of items) {
+    const mapped = f(item);
+    if ('err' in mapped)
+      return Err(mapped.err);
+    rv.push(mapped.ok);
+  }
+  return Ok(rv);
+};
+
+
+// Returns the replacement for an expression, or `null` to keep looking inside of it.
+// `bound` has the local names that are visible at the expression.
+type Rewrite = (expr: Expr, bound: ReadonlySet<string>) => Partial<Expr> | null;
+
+const walk = <N extends Node>(node: N, bound: ReadonlySet<string>, rewrite: Rewrite): Partial<N> => {
+  const rewritten = isExpr(node) ? rewrite(node, bound) : null;
+  if (rewritten !== null)
+    return rewritten as Partial<N>;
+  return Ei.map(
+    traverse(scopedChildren(node), ({node: child, binds}) =>
+      walk(child, binds.length === 0 ? bound : new Set([...bound, ...binds]), rewrite)),
+    newChildren => withChildren(node, newChildren)
+  );
+};
+
+
+/// Hygiene
+
+
+// Every value the syntax of the arguments is made of
+const collectValues = (value: Value, into: Set<Value>): Set<Value> => {
+  into.add(value);
+  if (Table.is(value))
+    value.value.forEach(v => collectValues(v, into));
+  if (List.is(value))
+    value.value.forEach(v => collectValues(v, into));
+  return into;
+};
+
+/**
+ * Add `suffix` to every name the macro has made up, where a name is bound or
+ * used. The names it has taken from its arguments are the same values as in
+ * the arguments, so they're left alone.
+ */
+const markIntroduced = (value: Value, fromCallSite: ReadonlySet<Value>, suffix: string): Value => {
+  const markKey = (table: Map<string, Value>, key: string): Map<string, Value> => {
+    const name = table.get(key);
+    if (name === undefined || fromCallSite.has(name) || !Str.is(name))
+      return table;
+    return table.set(key, Str(name.value + suffix));
+  };
+
+  const markItems = (table: Map<string, Value>, key: string, nameKey: string): Map<string, Value> => {
+    const items = table.get(key);
+    if (items === undefined || !List.is(items))
+      return table;
+    return table.set(key, List(items.value.map(item => Table.is(item) ? Table(markKey(item.value, nameKey)) : item)));
+  };
+
+  const mark = (v: Value): Value => {
+    if (fromCallSite.has(v))
+      return v;
+    if (List.is(v))
+      return List(v.value.map(mark));
+    if (!Table.is(v))
+      return v;
+
+    const table = v.value.map(mark);
+    const tag = table.get('tag');
+    if (tag === undefined || !Symbol.is(tag))
+      return Table(table);
+    switch (tag.value) {
+      case 'Name':
+      case 'ArgSingle':
+        return Table(markKey(table, 'value'));
+      case 'Let':
+        return Table(markItems(table, 'bindings', 'name'));
+      case 'Block':
+        return Table(markItems(table, 'value', 'name'));
+      default:
+        return Table(table);
+    }
+  };
+
+  return mark(value);
+};
+
+// A made-up name that nothing in the replacement binds refers to a global,
+// like `List` in `List:map`, so it gets its name back
+const unmarkFree = (expr: Expr, suffix: string): Partial<Expr> => {
+  const isMarked = (name: string) => name.endsWith(suffix);
+  return walk(expr, new Set(), (e, bound) => {
+    if (e.tag === 'Name' && isMarked(e.value) && !bound.has(e.value))
+      return Ok(withSpan(ast.Name(e.value.slice(0, -suffix.length)), e.span));
+    // The captured names of a function are the ones that are free inside of it
+    if (e.tag === 'Lam' && !e.value.capturedNames.some(isMarked))
+      return Ok(e);
+    return null;
+  });
+};
+
+
+/// Expansion
+
+
+let _expansions = 0;
+
+// Applies the macro to the syntax of the arguments, one by one, until it
+// returns syntax instead of a function. Returns the replacement and the
+// arguments that are left over.
+const applyMacro = (expander: Value, args: Expr[], env: Env): Partial<[Expr, Expr[]]> => {
+  const quoted = args.map(exprToValue);
+  const fromCallSite = new Set<Value>();
+  for (const q of quoted)
+    collectValues(q, fromCallSite);
+
+  let rv = expander;
+  let used = 0;
+  while (Fun.is(rv) || Native.is(rv)) {
+    if (used === args.length)
+      return Err(NotInDomain({value: rv, explanation: 'the macro needs more arguments to return syntax'}));
+    const applied = applyFunction(rv, quoted[used], env);
+    if ('err' in applied)
+      return Err(applied.err);
+    rv = applied.ok;
+    used++;
+  }
+
+  const suffix = `#${++_expansions}`;
+  return Ei.flatMap(
+    valueToExpr(markIntroduced(rv, fromCallSite, suffix)),
+    replacement => Ei.map(unmarkFree(replacement, suffix), (r): [Expr, Expr[]] => [r, args.slice(used)])
+  );
+};
+
+const expandCall = (expr: Expr, bound: ReadonlySet<string>, env: Env, depth: number): Partial<Expr> | null => {
+  const args: Expr[] = [];
+  let head = expr;
+  while (head.tag === 'App') {
+    args.unshift(head.value.arg);
+    head = head.value.fun;
+  }
+  // A local name hides the global macro
+  if (head.tag !== 'Name' || args.length === 0 || bound.has(head.value))
+    return null;
+  const macro = tryLookupName(head.value, env);
+  if (macro === null || !Macro.is(macro))
+    return null;
+
+  const name = head.value;
+  const atCallSite = (error: RuntimeError): RuntimeError =>
+    withFrame(error.span === undefined ? withSpan(error, expr.span) : error, {name, span: expr.span});
+
+  if (depth >= MAX_DEPTH)
+    return Err(atCallSite(Other(Str(`macro \`${name}\` is nested more than ${MAX_DEPTH} levels deep`))));
+
+  const rv = Ei.flatMap(
+    applyMacro(macro.value, args, env),
+    ([replacement, rest]) =>
+      _expand(rest.reduce(makeApp, withSpan(replacement, expr.span)), bound, env, depth + 1)
+  );
+  return 'err' in rv ? Err(atCallSite(rv.err)) : rv;
+};
+
+const _expand = (expr: Expr, bound: ReadonlySet<string>, env: Env, depth: number): Partial<Expr> =>
+  walk(expr, bound, (e, b) => expandCall(e, b, env, depth));
+
+/**
+ * Replace every call of a macro bound in `env` with its expansion. Errors
+ * point at the call that couldn't be expanded.
+ */
+export const expandMacros = (expr: Expr, env: Env): Partial<Expr> =>
+  _expand(expr, new Set(), env, 0);
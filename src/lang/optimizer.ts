@@ -0,0 +1,304 @@
+/**
+ * This module simplifies a statement right before it runs, computing ahead
+ * of time what doesn't depend on anything. It's optional, see
+ * `Interpreter.optimizing`.
+ *
+ * From the bottom up, it:
+ *
+ *   - computes built-in operators whose arguments are literals, like
+ *     `meters 3 * 2`, which becomes `meters 6`, or `1 < 2`, which becomes
+ *     `true`. Operations that fail, like `1 / 0`, are left to fail when
+ *     they run.
+ *   - applies lambdas to literals right away, so `(x. x + 1) 2` becomes `3`
+ *   - picks the branch of a condition that is `true` or `false`
+ *   - turns `f $ x` and `x |> f` into `f x`
+ *
+ * Only the names that still have their built-in values are simplified, so a
+ * local `+`, or one that has been redefined with `.=`, is left alone. A
+ * statement that could redefine a name while it runs, by calling anything
+ * but a function written in it or a built-in that only computes its result,
+ * doesn't get any names simplified at all.
+ *
+ * The bodies of functions run later, after any of the built-ins they use
+ * could have been redefined. A function keeps its body, and gets a simplified
+ * one too, which only runs while the built-ins it assumes are still there
+ * (see `simplifiedOf`). What doesn't depend on them, like applying a lambda
+ * to a number, is simplified in the body itself.
+ */
+
+import { Map } from 'immutable';
+import * as ast from './ast';
+import { Expr } from './ast';
+import { applyFunction, Bool, Env, Str, Symbol, tryLookupName, Unit, Value } from './runtime';
+import { Simplified } from './resolver';
+import { dimEq, DimensionName, neutralDimension } from './units';
+import { bindersOf, freeNames, isExpr, map, Node, scopedChildren, walk, withChildren } from './visitor';
+import { withHidden, withSpan } from '../language';
+import Fraction from 'fraction.js';
+
+
+// Built-ins that don't do anything but compute their result
+const BINARY = new Set([
+  '+', '-', '*', '/', '^', '^/', '<', '>', '<=', '>=', '=', '!=', '~=', 'compare', '&&', '||', '++',
+]);
+const UNARY = new Set(['negate', 'not']);
+
+// A number with a dimension is written as `meters 3`
+const UNIT_FUNCTIONS: Partial<Record<DimensionName, string>> = {L: 'meters', M: 'kilograms', T: 'seconds'};
+
+// Calling these can't redefine anything, except for the functions that
+// `$` and `|>` call
+const HARMLESS = new Set([...BINARY, ...UNARY, ...Object.values(UNIT_FUNCTIONS), '$', '|>']);
+
+
+const ok = (result: ReturnType<typeof applyFunction>): Value | null =>
+  'ok' in result ? result.ok : null;
+
+
+// Inside the body of a function, `assumed` collects the built-ins that the
+// simplified body relies on. `stable` is whether names can be simplified,
+// and `entering` whether the functions inside get their bodies simplified.
+type Scope = {
+  env: Env,
+  builtins: Map<string, Value>,
+  bound: ReadonlySet<string>,
+  assumed: globalThis.Map<string, Value> | null,
+  stable: boolean,
+  entering: boolean,
+};
+
+// The built-in value that `name` has now, if it has one
+const currentBuiltin = (name: string, {env, builtins, bound, assumed}: Scope): Value | null => {
+  const value = builtins.get(name);
+  if (value === undefined || bound.has(name) || tryLookupName(name, env) !== value)
+    return null;
+  assumed?.set(name, value);
+  return value;
+};
+
+// The built-in value of `name`, if that's what it refers to when it's looked up
+const builtin = (name: string, scope: Scope): Value | null =>
+  scope.stable ? currentBuiltin(name, scope) : null;
+
+const literalValue = (expr: Expr, scope: Scope): Value | null => {
+  switch (expr.tag) {
+    case 'Dec':
+      return Unit(expr.value);
+    case 'Str':
+      return Str(expr.value);
+    case 'Symbol':
+      return Symbol(expr.value);
+    case 'Name':
+      return expr.value === 'true' || expr.value === 'false' ? builtin(expr.value, scope) : null;
+    case 'App': {
+      const {fun, arg} = expr.value;
+      if (fun.tag !== 'Name' || arg.tag !== 'Dec' || !Object.values(UNIT_FUNCTIONS).includes(fun.value))
+        return null;
+      const unitFunction = builtin(fun.value, scope);
+      return unitFunction === null ? null : ok(applyFunction(unitFunction, Unit(arg.value), scope.env));
+    }
+    default:
+      return null;
+  }
+};
+
+// The literal that evaluates to `value`, if there's one
+const toLiteral = (value: Value, scope: Scope): Expr | null => {
+  if (Str.is(value))
+    return ast.Str(value.value);
+  if (Symbol.is(value))
+    return ast.Symbol(value.value);
+  if (Bool.is(value)) {
+    const name = value.value ? 'true' : 'false';
+    return builtin(name, scope) === null ? null : ast.Name(name);
+  }
+  if (!Unit.is(value))
+    return null;
+
+  const {value: amount, dim} = value.value;
+  if (dimEq(dim, neutralDimension))
+    return ast.Dec(amount);
+  for (const [dimension, fn] of Object.entries(UNIT_FUNCTIONS) as [DimensionName, string][]) {
+    const base = {...neutralDimension, [dimension]: new Fraction(1)};
+    if (dimEq(dim, base) && builtin(fn, scope) !== null)
+      return ast.App({fun: ast.Name(fn), arg: ast.Dec(amount)});
+  }
+  return null;
+};
+
+
+/// Rules
+
+
+// `1 + 2`, `not true`
+const computeBuiltin = (expr: Expr, scope: Scope): Expr | null => {
+  if (expr.tag !== 'App')
+    return null;
+  const {fun, arg} = expr.value;
+  const right = literalValue(arg, scope);
+  if (right === null)
+    return null;
+
+  let result: Value | null = null;
+  if (fun.tag === 'Name' && UNARY.has(fun.value)) {
+    const op = builtin(fun.value, scope);
+    result = op && ok(applyFunction(op, right, scope.env));
+  } else if (fun.tag === 'App' && fun.value.fun.tag === 'Name' && BINARY.has(fun.value.fun.value)) {
+    const op = builtin(fun.value.fun.value, scope);
+    const left = literalValue(fun.value.arg, scope);
+    const partial = op && left && ok(applyFunction(op, left, scope.env));
+    result = partial && ok(applyFunction(partial, right, scope.env));
+  }
+  return result && toLiteral(result, scope);
+};
+
+// `(x. x + 1) 2`. The literal can't be captured by a local name in the body,
+// like `true` in `(x. (true. x) 1) true`.
+const applyLambda = (expr: Expr, scope: Scope): Expr | null => {
+  if (expr.tag !== 'App' || expr.value.fun.tag !== 'Lam' || expr.value.fun.value.arg.tag !== 'ArgSingle')
+    return null;
+  const {arg: literal} = expr.value;
+  if (literalValue(literal, scope) === null)
+    return null;
+
+  const {arg: {value: param}, expr: body} = expr.value.fun.value;
+  const literalNames = freeNames(literal);
+  let captured = false;
+  walk(body, (node, {bound}) => {
+    if (node.tag === 'Name' && node.value === param && !bound.has(param))
+      captured = captured || literalNames.some(name => bound.has(name));
+  });
+  if (captured)
+    return null;
+
+  const substituted = map(body, (node, bound) =>
+    node.tag === 'Name' && node.value === param && !bound.has(param) ? literal : node);
+  return optimizeInside(substituted, scope);
+};
+
+// `if true then a else b`
+const pickBranch = (expr: Expr, scope: Scope): Expr | null => {
+  if (expr.tag !== 'Cond')
+    return null;
+  const condition = literalValue(expr.value.if, scope);
+  if (condition === null || !Bool.is(condition))
+    return null;
+  return condition.value ? expr.value.then : expr.value.else;
+};
+
+// Evaluating these doesn't do anything, and literals and lambdas can't fail
+const isAtom = (expr: Expr, scope: Scope) =>
+  expr.tag === 'Name' || expr.tag === 'Lam' || literalValue(expr, scope) !== null;
+const cantFail = (expr: Expr, scope: Scope) =>
+  expr.tag === 'Lam' || literalValue(expr, scope) !== null
+  || (expr.tag === 'Name' && (
+    builtin(expr.value, scope) !== null
+    || (!scope.bound.has(expr.value) && tryLookupName(expr.value, scope.env) !== null)
+  ));
+
+// `f $ x` and `x |> f`. With `|>`, `f` is evaluated before `x` afterwards,
+// which can only be told apart if one of them could fail.
+const inlineApplication = (expr: Expr, scope: Scope): Expr | null => {
+  if (expr.tag !== 'App' || expr.value.fun.tag !== 'App' || expr.value.fun.value.fun.tag !== 'Name')
+    return null;
+  const {fun: {value: {fun: {value: op}, arg: left}}, arg: right} = expr.value;
+  if (op === '$' && builtin('$', scope) !== null)
+    return ast.App({fun: left, arg: right});
+  const reorderable =
+    isAtom(left, scope) && isAtom(right, scope) && (cantFail(left, scope) || cantFail(right, scope));
+  if (op === '|>' && builtin('|>', scope) !== null && reorderable)
+    return ast.App({fun: right, arg: left});
+  return null;
+};
+
+const RULES = [computeBuiltin, applyLambda, pickBranch, inlineApplication];
+
+
+// The children of `expr` have been simplified already. The rules can make
+// more of them apply, like `(x. x + 1) $ 2`, so they're applied until none
+// of them does. The replacements keep the original span.
+const simplify = (expr: Expr, scope: Scope): Expr => {
+  for (const rule of RULES) {
+    const replacement = rule(expr, scope);
+    if (replacement !== null)
+      return simplify(withSpan(replacement, expr.span), scope);
+  }
+  return expr;
+};
+
+/// Redefinitions
+
+
+const harmless = (fun: Expr, scope: Scope): boolean =>
+  fun.tag === 'Lam' || (fun.tag === 'Name' && HARMLESS.has(fun.value) && currentBuiltin(fun.value, scope) !== null);
+
+// `f $ x` calls `f`, and so does `x |> f`. A lambda can return any function,
+// so only what the harmless built-ins return is called safely.
+const harmlessCall = ({fun, arg}: {fun: Expr, arg: Expr}, scope: Scope): boolean => {
+  if (fun.tag !== 'App')
+    return harmless(fun, scope);
+  const {fun: op, arg: left} = fun.value;
+  if (op.tag !== 'Name' || !harmless(op, scope))
+    return false;
+  if (op.value === '$')
+    return harmless(left, scope);
+  if (op.value === '|>')
+    return harmless(arg, scope);
+  return true;
+};
+
+// Whether running `expr` could redefine a name, like `:+ .= (-)` or
+// `IO:unpack m` do, or anything a function from elsewhere calls
+const mayRedefine = (expr: Expr, scope: Scope): boolean => {
+  let rv = false;
+  walk(expr, (node, {bound}) => {
+    if (node.tag === 'DefineMacro' || (node.tag === 'App' && !harmlessCall(node.value, {...scope, bound})))
+      rv = true;
+    return !rv;
+  }, scope.bound);
+  return rv;
+};
+
+
+/// Passes
+
+
+const optimizeInside = (expr: Expr, scope: Scope): Expr => {
+  const go = (node: Node, bound: ReadonlySet<string>): Node => {
+    if (node.tag === 'Lam')
+      return scope.entering ? optimizeLambda(node, {...scope, bound}) : node;
+    const rebuilt = withChildren(node, scopedChildren(node).map(({node: child, binds}) =>
+      go(child, new Set([...bound, ...binds]))));
+    return isExpr(rebuilt) ? simplify(rebuilt, {...scope, bound}) : rebuilt;
+  };
+  return go(expr, scope.bound) as Expr;
+};
+
+// The default values of the parameters are left alone
+const optimizeLambda = (lam: Expr & {tag: 'Lam'}, outer: Scope): Expr => {
+  const {arg, expr: body} = lam.value;
+  const scope = {...outer, bound: new Set([...outer.bound, ...bindersOf(arg)]), assumed: null, stable: false};
+  const plain = optimizeInside(body, scope);
+
+  // The functions inside have been simplified by now
+  const assumed = new globalThis.Map<string, Value>();
+  const guarded = {...scope, assumed, entering: false};
+  const simplified = mayRedefine(plain, guarded) ? plain : optimizeInside(plain, {...guarded, stable: true});
+
+  if (plain === body && simplified === plain)
+    return lam;
+  const rv = withSpan(ast.Lam(ast.lambda(arg, plain)), lam.span);
+  if (simplified === plain)
+    return rv;
+  const value: Simplified = {lambda: ast.lambda(arg, simplified), assumptions: [...assumed]};
+  return withSpan({...rv, value: withHidden(rv.value, 'simplified', value)}, lam.span);
+};
+
+/**
+ * Simplify `expr`, which is about to run in `env`. `builtins` are the names
+ * that the operators had when the interpreter was made.
+ */
+export const optimize = (expr: Expr, env: Env, builtins: Map<string, Value>): Expr => {
+  const scope: Scope = {env, builtins, bound: new Set(), assumed: null, stable: false, entering: true};
+  return optimizeInside(expr, {...scope, stable: !mayRedefine(expr, scope)});
+};
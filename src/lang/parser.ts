@@ -1,19 +1,25 @@
-import { Lang, TokenParser } from '../language'
+import { Lang, Span, TokenParser, TokenStream, withSpan } from '../language'
 import * as Comb from '../combinators'
-import { Tok } from './lexer'
+import { describeTok, Tok } from './lexer'
+import { Err, Ok, ParseError } from '../either'
+import * as Ei from '../either'
+import { hintOf, parser, withHint } from '../parser'
+import { decodeString, encodeString, escapeString } from './strings'
 import {
-  Op, Ops, Expr, ParseOptions, App,
-  Name, Str, Table, Symbol, Cond,
-  ArgSingle, LamArg, ArgTable, Lambda,
-  Dec, makeLambda, InfixOp, ExprOp
+  Op, Operand, Ops, Expr, ParseOptions, makeApp,
+  Name, Str, Template, Table, TableEntry, List, ListItem, Symbol, Cond,
+  Match, MatchArm, Pattern, PatLiteral, PatArg, Let, LetBinding, LetT, Block, Statement, DefineMacro,
+  ArgSingle, LamArg, ArgTable, ArgList, ArgDefault, Lambda,
+  Dec, makeLambda, InfixOp, ExprOp, PrefixOp, Priority, Prio
 } from './ast'
 import { shuntingYard } from './shunting-yard'
+import { children, isExpr, Node } from './visitor';
 import { ColorHandle, identityColorHandle } from './color';
 import Big from 'big.js';
-import { matchExhaustive } from '@practical-fp/union-types'
+import { matchExhaustive, Variant } from '@practical-fp/union-types'
 
 
-const L = new Lang<Tok>();
+const L = new Lang<Tok>(describeTok);
 type P<A> = TokenParser<Tok, A>;
 
 
@@ -23,6 +29,8 @@ const inParentheses = <A>(p: P<A>): P<A> =>
 const trailingComma = (lookAheadFor: Tok) =>
  L.oneOf('comma').or(L.oneOf(lookAheadFor).lookAhead());
 
+const dotDot = L.exact('op', '..');
+
 
 type SetOptions = (options: ParseOptions) => void;
 export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
@@ -38,8 +46,33 @@ export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
   const decLiteral = L.reading('dec', s => Dec(new Big(s)));
 
 
-  const stringLiteral =
-    L.reading('string1', eval).or(L.reading('string2', eval)).map(Str);
+  const stringPart = (...types: Tok[]): P<string> =>
+    L.oneOf(...types).flatMap(({content}) =>
+      Ei.dispatch(
+        decodeString(content),
+        s => Comb.always<TokenStream<Tok>, string>(s),
+        e => Comb.fail(e.msg),
+      )
+    );
+
+  const stringLiteral = stringPart('string1', 'string2').map(Str);
+
+
+  // "a {x} b {y} c" is lexed as `"a {`, x, `} b {`, y, `} c"`
+  const interpolatedString =
+    Comb.pair(
+      stringPart('string2start'),
+      Comb.pair(
+        Comb.many(Comb.pair(exprParser, stringPart('string2mid'))),
+        Comb.pair(
+          exprParser,
+          stringPart('string2end').orBail('Expected `}` after the interpolated expression')
+        )
+      )
+    ).map(([first, [middle, [lastExpr, last]]]) => Template({
+      strings: [first, ...middle.map(([_, s]) => s), last],
+      exprs: [...middle.map(([e, _]) => e), lastExpr],
+    }));
 
 
   const symbolLiteral =
@@ -54,12 +87,13 @@ export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
 
 
   const tableLiteral = (() => {
-    const singleTableEntry =
-      Comb.pair(
+    const singleTableEntry: P<TableEntry> =
+      dotDot.then(exprParser).map((e): TableEntry => [null, e])
+      .or(Comb.pair(
         nameOrOperator.neht(L.oneOf('col')),
         exprParser
-      )
-      .orSame(nameOrOperator.map(k => [k, Name(k)]));
+      ))
+      .orSame(L.spanned(nameOrOperator.map(Name)).map(k => [k.value, k]));
 
     const tableContents =
       Comb.many(singleTableEntry.neht(trailingComma('rbr')))
@@ -72,31 +106,76 @@ export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
   })();
 
 
-  const lambda = (() => {
-    const nameParameter = nameOrOperator.map(ArgSingle);
+  const listLiteral = (() => {
+    const listItem: P<ListItem> =
+      dotDot.then(exprParser).map(expr => ({expr, spread: true}))
+      .or(exprParser.map(expr => ({expr, spread: false})));
+
+    return Comb.surroundedBy(
+      L.oneOf('lsq'),
+      Comb.many(listItem.neht(trailingComma('rsq'))),
+      L.oneOf('rsq'),
+    ).map(List);
+  })();
 
-    const tableParameter = (() => {
-      const singleTableEntry = (target: string) =>
-        L.oneOf('col').then(parameter).map(
-          (p): [string, LamArg] => [target, p]
-        )
-        .orSame(Comb.always([target, ArgSingle(target)] ));
 
-      const _tablePatHelper: P<[string, LamArg][]> = Comb.surroundedBy(
+  // Parameters of functions, which are also used as patterns in `match`
+  const parameter: P<LamArg> = (() => {
+    const nameParameter = L.spanned(nameOrOperator.map(ArgSingle));
+
+    const tableParameter = (() => {
+      // {port: p = 8080} or {port = 8080}
+      const defaultValue = (target: LamArg): P<LamArg> =>
+        L.exact('op', '=')
+        .then(exprParser.orBail('Expected a default value after `=`'))
+        .map(d => ArgDefault({arg: target, default: d}))
+        .or(Comb.always(target));
+
+      const singleTableEntry = (key: Variant<'ArgSingle', string>) =>
+        L.oneOf('col').then(parameter)
+        .orSame(Comb.always(key))
+        .flatMap(defaultValue)
+        .map((p): [string, LamArg] => [key.value, p]);
+
+      const rest: P<LamArg | null> =
+        dotDot.then(nameParameter).neht(trailingComma('rbr'))
+        .or(Comb.always(null));
+
+      const _tablePatHelper = Comb.surroundedBy(
         L.oneOf('lbr'),
-        Comb.many(
-          nameOrOperator
-          .flatMap(singleTableEntry)
-          .neht(trailingComma('rbr'))
+        Comb.pair(
+          Comb.many(
+            nameParameter
+            .flatMap(singleTableEntry)
+            .neht(trailingComma('rbr'))
+          ),
+          rest
         ),
         L.oneOf('rbr'),
       );
-      return _tablePatHelper.map(ArgTable);
+      return L.spanned(_tablePatHelper.map(([pairs, r]) => ArgTable({pairs, rest: r})));
     })();
 
-    const parameter = nameParameter.or(tableParameter);
+    const listParameter = (() => {
+      const rest: P<LamArg | null> =
+        dotDot.then(nameParameter).neht(trailingComma('rsq'))
+        .or(Comb.always(null));
 
-    const parameterList = Comb.many(parameter).neht(L.oneOf('dot'));
+      const _listPatHelper = Comb.surroundedBy(
+        L.oneOf('lsq'),
+        Comb.pair(Comb.many(Comb.lazy(() => parameter).neht(trailingComma('rsq'))), rest),
+        L.oneOf('rsq'),
+      );
+      return L.spanned(_listPatHelper.map(([items, r]) => ArgList({items, rest: r})));
+    })();
+
+    return nameParameter.or(tableParameter).or(listParameter);
+  })();
+
+
+  const lambda = (() => {
+    // Until we see the dot, we can't be sure that this is a function at all
+    const parameterList = L.attempt(Comb.many(parameter).neht(L.oneOf('dot')));
 
     // Helper function to turn (x y z. body) into (x. (y. (z. body)))
     const _makeNestedLambda = (argNames: LamArg[], expr: Expr): Expr =>
@@ -121,35 +200,135 @@ export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
   ).map(([ifE, [thenE, elseE]]) => Cond({if: ifE, then: thenE, else: elseE}));
 
 
+  const matchExpression = (() => {
+    // `true` and `false` are just names elsewhere, but binding
+    // them in a pattern would be a nasty surprise
+    const boolLiteral = L.exact('name', 'true').or(L.exact('name', 'false')).map(t => Name(t.content));
+
+    const pattern: P<Pattern> = L.spanned(
+      decLiteral.or(stringLiteral).or(symbolLiteral).or(boolLiteral).map(PatLiteral)
+      .or(parameter.map(PatArg))
+    );
+
+    const guard: P<Expr | null> =
+      L.oneOf('if').then(exprParser.orBail('Expected expression after `if`'))
+      .or(Comb.always(null));
+
+    const arm: P<MatchArm> = Comb.pair(
+      L.oneOf('bar').then(pattern.orBail('Expected a pattern after `|`')),
+      Comb.pair(
+        guard,
+        L.oneOf('arrow').orBail('Expected `->`').then(exprParser.orBail('Expected expression after `->`'))
+      )
+    ).map(([pat, [g, body]]) => ({pattern: pat, guard: g, body}));
+
+    return Comb.pair(
+      L.oneOf('match').then(exprParser.orBail('Expected expression after `match`')),
+      L.oneOf('with').orBail('Expected `with`').then(
+        Comb.manyAtLeast(arm, 1, 'Expected at least one `| pattern -> expression`')
+      )
+    ).map(([subject, arms]) => Match({subject, arms}));
+  })();
+
+
+  // `let x = 1, y = 2 in body` and `body where {x = 1, y = 2}`
+  const [letExpression, whereClause] = ((): [P<Expr>, P<Omit<LetT, 'body'>>] => {
+    const binding = (lookAheadFor: Tok): P<LetBinding> =>
+      Comb.pair(
+        L.reading('name', n => n),
+        L.exact('op', '=').orBail('Expected `=` after the name').then(
+          exprParser.orBail('Expected expression after `=`')
+        )
+      )
+      .neht(trailingComma(lookAheadFor))
+      .map(([bound, value]) => ({name: bound, value}));
+
+    const rec = L.oneOf('rec').map(_ => true).or(Comb.always(false));
+
+    const bindings = (lookAheadFor: Tok) =>
+      Comb.manyAtLeast(binding(lookAheadFor), 1, 'Expected at least one `name = expression`');
+
+    const letIn = Comb.pair(
+      L.oneOf('let').then(Comb.pair(rec, bindings('in'))),
+      L.oneOf('in').orBail('Expected `in`').then(exprParser.orBail('Expected expression after `in`'))
+    ).map(([[isRec, bs], body]) => Let({bindings: bs, body, rec: isRec}));
+
+    const where = Comb.pair(
+      L.oneOf('where').then(rec),
+      Comb.surroundedBy(
+        L.oneOf('lbr').orBail('Expected `{` after `where`'),
+        bindings('rbr'),
+        L.oneOf('rbr').orBail('Expected `}`'),
+      )
+    ).map(([isRec, bs]) => ({bindings: bs, rec: isRec}));
+
+    return [letIn, where];
+  })();
+
+
+  // do { :x = read {}; IO:log x; x }
+  const block = (() => {
+    // Without the `=`, `:x` is just the beginning of an expression
+    const boundName = L.attempt(L.oneOf('col').then(nameOrOperator).neht(L.exact('op', '=')));
+
+    // The `;` after each statement is eaten by `exprParser`
+    const statement: P<Statement> =
+      Comb.pair(boundName, exprParser.orBail('Expected expression after `=`'))
+      .map(([bound, expr]) => ({name: bound, expr}))
+      .or(exprParser.map(expr => ({name: null, expr})));
+
+    return L.oneOf('do').then(
+      Comb.surroundedBy(
+        L.oneOf('lbr').orBail('Expected `{` after `do`'),
+        Comb.manyAtLeast(statement, 1, 'Expected at least one statement in the block'),
+        L.oneOf('rbr'),
+      )
+    ).map(Block);
+  })();
+
+
   // `atomic` is something that doesn't change the parsing result
   // if you surround it with parentheses
-  const atomic: P<Expr> =
+  const atomic: P<Expr> = L.label('an expression', L.spanned(
     Comb.lazy(() => operatorSection)
     .or(decLiteral)
     .or(stringLiteral)
+    .or(interpolatedString)
     .or(name)
     .or(parenthesized)
     .or(ifThenElse)
+    .or(matchExpression)
+    .or(letExpression)
+    .or(block)
     .or(symbolLiteral)
-    .or(tableLiteral);
+    .or(tableLiteral)
+    .or(listLiteral)
+  ));
 
 
-  const app = (fun: Expr, arg: Expr) => App({fun, arg});
+  const app = makeApp;
 
   const operatorSection = (() => {
     // An operator section can have either an infix operator,
     // like (+ 3), or a backticked name, like (`div` 2)
     const infixOperator =
-      L.reading('op', Name)
+      L.spanned(L.reading('op', Name))
       .or(
         L.oneOf('backtick')
-        .then(L.reading('name', Name))
+        .then(L.spanned(L.reading('name', Name)))
         .neht(L.oneOf('backtick').orBail('Unclosed `'))
       );
 
+    // A prefix operator isn't a section, so (- 1) <=> (negate 1)
+    const nonPrefixOperator = infixOperator.flatMap(op =>
+      op.tag === 'Name' && op.value in options.prefixOperators
+        ? Comb.fail<TokenStream<Tok>, Expr>(`\`${op.value}\` is a prefix operator`)
+        : Comb.always<TokenStream<Tok>, Expr>(op)
+    );
+
     // (+ 1) <=> {_: _ + 1}
     const leftSection =
-      inParentheses(Comb.pair(infixOperator, atomic))
+      inParentheses(Comb.pair(nonPrefixOperator, atomic))
       .map(([op, right]) => makeLambda(ArgSingle('_'), app(app(op, Name('_')), right)));
 
     // (1 +) <=> ((+) 1)
@@ -174,134 +353,334 @@ export const makeParser = (options: ParseOptions): [P<Expr>, SetOptions] => {
   const infixOperatorExpression = (() => {
     // Infix expression, like (1 + a - b c d * e f g)
 
-    const symbolInfixOp = L.reading<Op>('op', InfixOp);
+    const symbolInfixOp = L.spanned(L.reading<Op>('op', InfixOp));
 
     const backtickInfixOp =
       L.oneOf('backtick')
       .then(exprParser.map(ExprOp))
       .neht(L.oneOf('backtick'));
 
-    const infixOperator = symbolInfixOp.or(backtickInfixOp);
+    const infixOperator = L.label('an operator', symbolInfixOp.or(backtickInfixOp));
+
+    // `-` or `not`, if it has an entry in `options.prefixOperators`
+    const prefixOperator: P<Op> = L.attempt(L.spanned(
+      L.oneOf('op', 'name').flatMap(({content}) =>
+        content in options.prefixOperators
+          ? Comb.always<TokenStream<Tok>, Op>(PrefixOp(content))
+          : Comb.fail<TokenStream<Tok>, Op>('Expected a prefix operator')
+      )
+    ));
+
+    // If nothing follows a prefix operator, it's just a name, like in `(not)`
+    const operand: P<Operand> =
+      Comb.pair(prefixOperator, Comb.lazy(() => operand))
+      .map(([op, {prefixes, expr}]) => ({prefixes: [op, ...prefixes], expr}))
+      .or(application.map(expr => ({prefixes: [], expr})));
 
     const operatorList: P<Ops> = Comb.pair(
-      application,
-      Comb.many(Comb.pair(infixOperator, application))
+      operand,
+      Comb.many(Comb.pair(infixOperator, operand))
     ).map(
       ([initial, chunks]) => ({initial, chunks})
     );
 
-    return operatorList.map(ops => shuntingYard(ops, options));
+    // If a non-associative operator is chained, the error points
+    // at the beginning of the whole expression
+    return parser((src: TokenStream<Tok>) => {
+      const ea = operatorList.parse(src);
+      if ('err' in ea)
+        return ea;
+      const [ops, rest] = ea.ok;
+      return Ei.dispatch(
+        shuntingYard(ops, options),
+        expr => withHint(Ok([expr, rest] as const), hintOf(ea)),
+        msg => Err<ParseError, readonly [Expr, TokenStream<Tok>]>({recoverable: false, msg, remaining: src.length}),
+      );
+    });
   })();
 
 
   const exprEnd = Comb.maybe(L.oneOf('semicolon'));
 
+  const withWhere = (body: Expr): P<Expr> =>
+    whereClause.map(w => Let({...w, body})).or(Comb.always(body));
+
+  // `macro unless c body. ...` binds `unless` to a macro, which `./macros`
+  // expands in the statements after it. Errors in defining it point at `macro`.
+  const macroDefinition = Comb.pair(
+    L.attempt(L.oneOf('macro')),
+    Comb.pair(
+      L.reading('name', macroName => macroName).orBail('Expected the name of the macro'),
+      exprParser.orBail('Expected a function after the name of the macro'),
+    ),
+  ).map(([keyword, [macroName, expander]]) => withSpan(DefineMacro({name: macroName, expander}), keyword.span));
+
   // Entry point
-  const exprParser_ = lambda.or(infixOperatorExpression).neht(exprEnd); // tslint:disable-line:variable-name
+  const exprParser_ = macroDefinition.or( // tslint:disable-line:variable-name
+    L.spanned(lambda.or(infixOperatorExpression).flatMap(withWhere))
+  ).neht(exprEnd);
 
 
   return [exprParser_, newOpts => {options = newOpts}];
 }
 
 
-const isIdentifier = (s: string) => /^(?![0-9])[a-zA-Z_0-9]+$/.test(s);
+export type Fixity = {operator: string, priority: Priority};
 
+const _directions: Record<string, Priority['direction']> = {infixl: 'left', infixr: 'right', infix: 'none'};
+
+/**
+ * A declaration like `infixl 6 <+>;`, which changes how the following
+ * expressions are parsed. It's not an expression, so it can only appear
+ * between them.
+ */
+export const fixityDeclaration: P<Fixity> =
+  Comb.pair(
+    L.oneOf('infix'),
+    Comb.pair(
+      L.reading('dec', Number).orBail('Expected the strength of the operator'),
+      L.reading('op', o => o).orBail('Expected an operator'),
+    )
+  )
+  .neht(Comb.maybe(L.oneOf('semicolon')))
+  .map(([keyword, [strength, operator]]) => ({
+    operator,
+    priority: Prio(strength, _directions[keyword.content]),
+  }));
+
+
+const _listAlternatives = (items: readonly string[]): string =>
+  items.length <= 1
+  ? items.join('')
+  : items.slice(0, -1).join(', ') + ' or ' + items[items.length - 1];
+
+/**
+ * Turn a parse error into a message like
+ * "at line 12, col 5: expected `then`, `)` or an operator, found `else`",
+ * pointing at the token where the parser got stuck.
+ * `stream` must be the whole token stream that was being parsed.
+ */
+export const describeParseError = (
+  stream: TokenStream<Tok>,
+  error: ParseError,
+): {msg: string, span?: Span} => {
+  if (error.remaining === undefined)
+    return {msg: error.msg};
+
+  const token = stream[stream.length - error.remaining];
+  const where = token === undefined
+    ? 'at end of input'
+    : token.span === undefined
+      ? `at position ${token.position}`
+      : `at line ${token.span.line}, col ${token.span.col}`;
+  const found = token === undefined ? '' : `, found \`${token.content}\``;
+
+  const expected = error.expected || [];
+  const msg = expected.length === 0
+    ? `${where}: ${error.msg}`
+    : `${where}: expected ${_listAlternatives(expected)}${found}`;
+  return {msg, span: token && token.span};
+};
 
-const unparseArg = (arg: LamArg, col: ColorHandle): string =>
-  matchExhaustive(arg, {
-    ArgSingle: name => col.arg(name),
-    ArgTable: pairs =>
-      col.arg('{')
-      + pairs.map(
-          ([target, source]) =>
-            source.tag === 'ArgSingle' && source.value === target
-            ? col.arg(target)
-            : col.arg(target) + ': ' + unparseArg(source, col)
-      ).join(', ')
-      + col.arg('}')
-  });
 
-const unparseApp = ({fun, arg}: {fun: Expr, arg: Expr}, col: ColorHandle): string => {
-  const args: Expr[] = [];
-  while (fun.tag === 'App'){
-    args.push(arg);
-    arg = fun.value.arg;
-    fun = fun.value.fun;
+const _opening: Tok[] = ['lp', 'lbr', 'lsq'];
+const _closing: Tok[] = ['rp', 'rbr', 'rsq'];
+
+/**
+ * After a parse error, find where to resume parsing. `start` is the index
+ * of the token where the failed expression started, `errorAt` is the index
+ * of the token where it failed.
+ *
+ * We resume after the first `;` or after the first bracketed group that
+ * closes past the error, counting brackets from the start of the expression.
+ */
+export const findRecoveryPoint = (stream: TokenStream<Tok>, start: number, errorAt: number): number => {
+  let depth = 0;
+  for (let i = start; i < stream.length; i++) {
+    const type = stream[i].type;
+    const depthBefore = depth;
+    if (_opening.includes(type))
+      depth++;
+    else if (_closing.includes(type))
+      depth = Math.max(0, depth - 1);
+
+    if (i < errorAt)
+      continue;
+
+    if (type === 'semicolon' && depth === 0)
+      return i + 1;
+
+    if (depthBefore > 0 && depth === 0)
+      return stream[i + 1] && stream[i + 1].type === 'semicolon' ? i + 2 : i + 1;
   }
-  args.push(arg);
-  args.reverse();
-  return '(' + unparse(fun, col) + ' ' + args.map(e => unparse(e, col)).join(' ') + ')';
+  return stream.length;
 };
 
 
-const extractLeftOperatorSection = (lam: Lambda): [string, Expr] | null => {
-  // Left operator section, like `(- 5)`, is encoded as a lambda: {_: _ - 5}
-  // If the function is a left operator section, return the operator and the
-  // associated expression.
-
-  if (
-    lam.arg.tag === 'ArgSingle'
-    && lam.arg.value === '_'
-    && lam.expr.tag === 'App'
-    && lam.expr.value.fun.tag === 'App'
-    && lam.expr.value.fun.value.fun.tag === 'Name'
-    && !isIdentifier(lam.expr.value.fun.value.fun.value)
-    && lam.expr.value.fun.value.arg.tag === 'Name'
-    && lam.expr.value.fun.value.arg.value === '_'
-  )
-    return [lam.expr.value.fun.value.fun.value, lam.expr.value.arg];
-  else
-    return null;
-};
+const isIdentifier = (s: string) => /^(?![0-9])[a-zA-Z_0-9]+$/.test(s);
 
-const unparseLam = (lam: Lambda, col: ColorHandle): string => {
-  const leftSection = extractLeftOperatorSection(lam);
-  if (leftSection !== null) {
-    const [operator, expr] = leftSection;
-    return '(' + col.name(operator) + ' ' + unparse(expr, col) + ')';
-  }
 
-  const args: LamArg[] = [];
-  while (lam.expr.tag === 'Lam') {
-    args.push(lam.arg);
-    lam = lam.expr.value;
-  }
-  args.push(lam.arg);
-  return (
-    col.punctuation('(')
-    + args.map(e => unparseArg(e, col)).join(' ')
-    + '. '
-    + unparse(lam.expr, col)
-    + col.punctuation(')')
-  );
-}
+// How a node is printed. Nested applications and functions are printed as
+// one, like `(f a b)` and `(x y. z)`, so they also keep the parts that they
+// are printed from.
+type Printed = {text: string, parts: string[]};
 
-export const unparse = (expr: Expr, col: ColorHandle = identityColorHandle, depth: number = 0): string => {
-  if (depth > 12)
-    return '...';
+const printed = (text: string, parts: string[] = []): Printed => ({text, parts});
 
-  return matchExhaustive(expr, {
-    Name: name => col.name(isIdentifier(name) ? name : `(${name})`),
-    Dec: value => col.num(value.toString()),
-    Str: value => col.str(JSON.stringify(value)),
-    Symbol: value => col.constant(':' + value),
-    Table: pairs =>
+// A left operator section like `(* 5)` is the function `_. _ * 5`. `(- 5)`
+// would be read back as `negate 5`, so a function like that stays a function.
+const leftSectionOperator = ({arg, expr}: Lambda): string | null => {
+  if (arg.tag !== 'ArgSingle' || arg.value !== '_' || expr.tag !== 'App' || expr.value.fun.tag !== 'App')
+    return null;
+  const [operator, operand] = children(expr.value.fun);
+  return operator.tag === 'Name' && !isIdentifier(operator.value) && operator.value !== '-'
+    && operand.tag === 'Name' && operand.value === '_'
+    ? operator.value
+    : null;
+};
+
+// The children of a node are printed first, see `./visitor`, and then put
+// together in the same order. Only the expressions nested inside other
+// expressions count towards the depth, so the syntax of a table that
+// contains itself is still printed.
+const unparseNode = (node: Node, col: ColorHandle, depth: number): Printed => {
+  if (isExpr(node) && depth > 12)
+    return printed('...');
+
+  const childDepth = isExpr(node) && node.tag !== 'App' && node.tag !== 'Lam' ? depth + 1 : 0;
+  const parts = children(node).map(child => unparseNode(child, col, childDepth));
+  let next = 0;
+  const part = () => parts[next++];
+  const text = () => part().text;
+
+  return matchExhaustive(node, {
+    Name: name => printed(col.name(isIdentifier(name) ? name : `(${name})`)),
+    Dec: value => printed(col.num(value.toString())),
+    Str: value => printed(col.str(encodeString(value, true))),
+    Template: ({strings}) => printed(
+      col.str('"' + escapeString(strings[0], true))
+      + strings.slice(1).map(s => col.str('{') + text() + col.str('}' + escapeString(s, true))).join('')
+      + col.str('"')
+    ),
+    Symbol: value => printed(col.constant(':' + value)),
+    Table: entries => printed(
       col.punctuation('{')
-      + pairs.map(([k, v]) =>
-          Name.is(v) && v.value === k
-          ? col.name(k)
-          : `${col.name(k)}: ${unparse(v, col, depth+1)}`
-        ).join(', ')
-      + col.punctuation('}'),
-    App: app => unparseApp(app, col),
-    Lam: lam => unparseLam(lam, col),
-    Cond: cond => [
+      + entries.map(([k, v]) => {
+          const value = text();
+          return k === null
+            ? col.punctuation('..') + value
+            : Name.is(v) && v.value === k
+            ? col.name(k)
+            : `${col.name(k)}: ${value}`;
+        }).join(', ')
+      + col.punctuation('}')
+    ),
+    List: items => printed(
+      col.punctuation('[')
+      + items.map(item => (item.spread ? col.punctuation('..') : '') + text()).join(', ')
+      + col.punctuation(']')
+    ),
+    App: ({fun}) => {
+      const funPrinted = part();
+      const app = [...(fun.tag === 'App' ? funPrinted.parts : [funPrinted.text]), text()];
+      return printed('(' + app.join(' ') + ')', app);
+    },
+    Lam: lam => {
+      const arg = text();
+      const body = part();
+      const lambda = [arg, ...(lam.expr.tag === 'Lam' ? body.parts : [body.text])];
+      const operator = leftSectionOperator(lam);
+      // The operand of the section is the last part of `_ * 5`
+      if (operator !== null)
+        return printed('(' + col.name(operator) + ' ' + body.parts[body.parts.length - 1] + ')', lambda);
+      return printed(
+        col.punctuation('(')
+        + lambda.slice(0, -1).join(' ')
+        + '. '
+        + lambda[lambda.length - 1]
+        + col.punctuation(')'),
+        lambda
+      );
+    },
+    Cond: () => printed([
       col.keyword('if'),
-      unparse(cond.if, col, depth+1),
+      text(),
       col.keyword('then'),
-      unparse(cond.then, col, depth+1),
+      text(),
       col.keyword('else'),
-      unparse(cond.else, col, depth+1)
-    ].join(' '),
+      text(),
+    ].join(' ')),
+    Match: ({arms}) => printed(
+      col.punctuation('(')
+      + [
+          col.keyword('match'),
+          text(),
+          col.keyword('with'),
+          ...arms.map(({guard}) => [
+            col.punctuation('|'),
+            text(),
+            ...(guard !== null ? [col.keyword('if'), text()] : []),
+            col.punctuation('->'),
+            text(),
+          ].join(' ')),
+        ].join(' ')
+      + col.punctuation(')')
+    ),
+    Let: ({bindings, rec}) => printed(
+      col.punctuation('(')
+      + [
+          col.keyword(rec ? 'let rec' : 'let'),
+          bindings.map(({name}) => `${col.name(name)} = ${text()}`).join(', '),
+          col.keyword('in'),
+          text(),
+        ].join(' ')
+      + col.punctuation(')')
+    ),
+    Block: statements => printed(
+      col.keyword('do') + ' ' + col.punctuation('{')
+      + statements.map(({name}) => (name === null ? '' : `${col.constant(':' + name)} = `) + text()).join('; ')
+      + col.punctuation('}')
+    ),
+    DefineMacro: ({name}) => printed(
+      col.punctuation('(')
+      + `${col.keyword('macro')} ${col.name(name)} ${text()}`
+      + col.punctuation(')')
+    ),
+    ArgSingle: name => printed(col.arg(name)),
+    ArgTable: ({pairs, rest}) => printed(
+      col.arg('{')
+      + [
+          ...pairs.map(([key, source]) => {
+            // The default value comes after the target, like `{port: p = 8080}`
+            const [target, fallback] = source.tag === 'ArgDefault' ? part().parts : [text(), null];
+            const plainSource = source.tag === 'ArgDefault' ? source.value.arg : source;
+            return (
+              plainSource.tag === 'ArgSingle' && plainSource.value === key
+              ? col.arg(key)
+              : col.arg(key) + ': ' + target
+            ) + (fallback === null ? '' : ' = ' + fallback);
+          }),
+          ...(rest ? [col.arg('..') + text()] : []),
+        ].join(', ')
+      + col.arg('}')
+    ),
+    ArgList: ({items, rest}) => printed(
+      col.arg('[')
+      + [
+          ...items.map(() => text()),
+          ...(rest ? [col.arg('..') + text()] : []),
+        ].join(', ')
+      + col.arg(']')
+    ),
+    ArgDefault: () => {
+      const target = text();
+      const fallback = text();
+      return printed(target + ' = ' + fallback, [target, fallback]);
+    },
+    PatLiteral: () => part(),
+    PatArg: () => part(),
   });
 };
+
+export const unparse = (expr: Expr, col: ColorHandle = identityColorHandle, depth: number = 0): string =>
+  unparseNode(expr, col, depth).text;
@@ -0,0 +1,301 @@
+/**
+ * This module turns syntax into runtime values and back, so that programs
+ * can inspect and generate code (see `Refl:parse` and `Refl:eval`).
+ *
+ * Every AST node is a table with a `tag`, which is a symbol with the name
+ * of the node's variant. Nodes whose variant holds a single value keep it
+ * under `value`, the others have a key per field:
+ *
+ *   Name        {tag: :Name, value: "x"}
+ *   App         {tag: :App, fun, arg}
+ *   Dec         {tag: :Dec, value: 42}
+ *   Str         {tag: :Str, value: "text"}
+ *   Template    {tag: :Template, strings: ["a", "b"], exprs: [x]}
+ *   Symbol      {tag: :Symbol, value: "x"}
+ *   Table       {tag: :Table, value: [{key: "a", value}, {key: :nil, value: spread}]}
+ *   List        {tag: :List, value: [{expr, spread: false}]}
+ *   Cond        {tag: :Cond, condition, ifTrue, ifFalse}
+ *   Lam         {tag: :Lam, arg, expr}
+ *   Match       {tag: :Match, subject, arms: [{pattern, guard, body}]}
+ *   Let         {tag: :Let, bindings: [{name: "x", value}], body, recursive: false}
+ *   Block       {tag: :Block, value: [{name: "x", expr}, {name: :nil, expr}]}
+ *   DefineMacro {tag: :DefineMacro, name: "unless", expander}
+ *
+ *   PatLiteral  {tag: :PatLiteral, value: expr}
+ *   PatArg      {tag: :PatArg, value: arg}
+ *
+ *   ArgSingle   {tag: :ArgSingle, value: "x"}
+ *   ArgTable    {tag: :ArgTable, pairs: [{key: "a", arg}], rest}
+ *   ArgList     {tag: :ArgList, items: [arg], rest}
+ *   ArgDefault  {tag: :ArgDefault, arg, default: expr}
+ *
+ * The key of a spread entry, and a missing rest parameter, guard or
+ * statement name, is `:nil`. The fields of `Cond` and `Let` are renamed,
+ * because `if` or `rec` can't be written as keys. Spans aren't part of
+ * the tables, so only the nodes that come back unchanged keep theirs.
+ *
+ * Tokens only go one way, and they look like
+ * `{type: "name", content: "x", line: 1, col: 1}`.
+ */
+
+import { matchExhaustive } from '@practical-fp/union-types';
+import { List as ImmutableList, Map } from 'immutable';
+import * as ast from './ast';
+import { Expr, LamArg, Pattern } from './ast';
+import {
+  asBool, asList, asStr, asSymb, asTable, asUnit, Bool, DimensionMismatch,
+  List, MissingKey, NotInDomain, Partial, Str, Symbol, Table, Unit, Value,
+} from './runtime';
+import { dimEq, neutralDimension } from './units';
+import { Tok } from './lexer';
+import { Token } from '../language';
+import { Err, Ok } from '../either';
+import * as Ei from '../either';
+import Big from 'big.js';
+
+
+const nil = Symbol('nil');
+
+const node = (tag: string, payload: Record<string, Value>): Value =>
+  Table(Map({tag: Symbol(tag), ...payload}));
+
+const list = <A>(items: A[], f: (item: A) => Value): Value =>
+  List(ImmutableList(items.map(f)));
+
+const orNil = <A>(x: A | null, f: (x: A) => Value): Value =>
+  x === null ? nil : f(x);
+
+
+// Every node remembers the expression it was made from, so that the parts of
+// the syntax that come back unchanged, like the arguments of a macro, also
+// get their spans back
+const _origins = new WeakMap<Value, Expr>();
+
+export const exprToValue = (expr: Expr): Value => {
+  const value = _exprToValue(expr);
+  _origins.set(value, expr);
+  return value;
+};
+
+const _exprToValue = (expr: Expr): Value =>
+  matchExhaustive(expr, {
+    Name: name => node('Name', {value: Str(name)}),
+    App: ({fun, arg}) => node('App', {fun: exprToValue(fun), arg: exprToValue(arg)}),
+    Dec: value => node('Dec', {value: Unit(value)}),
+    Str: value => node('Str', {value: Str(value)}),
+    Template: ({strings, exprs}) => node('Template', {
+      strings: list(strings, Str),
+      exprs: list(exprs, exprToValue),
+    }),
+    Symbol: name => node('Symbol', {value: Str(name)}),
+    Table: entries => node('Table', {
+      value: list(entries, ([key, value]) => Table(Map({key: orNil(key, Str), value: exprToValue(value)}))),
+    }),
+    List: items => node('List', {
+      value: list(items, ({expr: item, spread}) => Table(Map({expr: exprToValue(item), spread: Bool(spread)}))),
+    }),
+    Cond: c => node('Cond', {
+      condition: exprToValue(c.if),
+      ifTrue: exprToValue(c.then),
+      ifFalse: exprToValue(c.else),
+    }),
+    Lam: ({arg, expr: body}) => node('Lam', {arg: argToValue(arg), expr: exprToValue(body)}),
+    Match: ({subject, arms}) => node('Match', {
+      subject: exprToValue(subject),
+      arms: list(arms, ({pattern, guard, body}) => Table(Map({
+        pattern: patternToValue(pattern),
+        guard: orNil(guard, exprToValue),
+        body: exprToValue(body),
+      }))),
+    }),
+    Let: ({bindings, body, rec}) => node('Let', {
+      bindings: list(bindings, ({name, value}) => Table(Map({name: Str(name), value: exprToValue(value)}))),
+      body: exprToValue(body),
+      recursive: Bool(rec),
+    }),
+    Block: statements => node('Block', {
+      value: list(statements, ({name, expr: statement}) =>
+        Table(Map({name: orNil(name, Str), expr: exprToValue(statement)}))),
+    }),
+    DefineMacro: ({name, expander}) => node('DefineMacro', {name: Str(name), expander: exprToValue(expander)}),
+  });
+
+const patternToValue = (pattern: Pattern): Value =>
+  matchExhaustive(pattern, {
+    PatLiteral: literal => node('PatLiteral', {value: exprToValue(literal)}),
+    PatArg: arg => node('PatArg', {value: argToValue(arg)}),
+  });
+
+export const argToValue = (arg: LamArg): Value =>
+  matchExhaustive(arg, {
+    ArgSingle: name => node('ArgSingle', {value: Str(name)}),
+    ArgTable: ({pairs, rest}) => node('ArgTable', {
+      pairs: list(pairs, ([key, target]) => Table(Map({key: Str(key), arg: argToValue(target)}))),
+      rest: orNil(rest, argToValue),
+    }),
+    ArgList: ({items, rest}) => node('ArgList', {
+      items: list(items, argToValue),
+      rest: orNil(rest, argToValue),
+    }),
+    ArgDefault: ({arg: target, default: fallback}) => node('ArgDefault', {
+      arg: argToValue(target),
+      default: exprToValue(fallback),
+    }),
+  });
+
+
+export const tokenToValue = (token: Token<Tok>): Value =>
+  Table(Map<Value>({
+    type: Str(token.type),
+    content: Str(token.content),
+    line: Unit(token.span?.line ?? 1),
+    col: Unit(token.span?.col ?? token.position + 1),
+  }));
+
+
+/// From values back to syntax
+
+
+type Decoder<A> = (v: Value) => Partial<A>;
+
+const field = <A>(table: Map<string, Value>, key: string, decoder: Decoder<A>): Partial<A> => {
+  const value = table.get(key);
+  if (value === undefined)
+    return Err(MissingKey(key));
+  return decoder(value);
+};
+
+// Decodes every field of a node, and fails on the first one that's missing or malformed
+const fields = <R>(table: Map<string, Value>, decoders: {[K in keyof R]: Decoder<R[K]>}): Partial<R> => {
+  const rv = {} as R;
+  for (const key of Object.keys(decoders) as (keyof R & string)[]) {
+    const decoded = field(table, key, decoders[key]);
+    if ('err' in decoded)
+      return Err(decoded.err);
+    rv[key] = decoded.ok;
+  }
+  return Ok(rv);
+};
+
+const listOf = <A>(decoder: Decoder<A>): Decoder<A[]> => v =>
+  Ei.flatMap(asList(v), items => {
+    const rv: A[] = [];
+    for (const item of items) {
+      const decoded = decoder(item);
+      if ('err' in decoded)
+        return Err(decoded.err);
+      rv.push(decoded.ok);
+    }
+    return Ok(rv);
+  });
+
+const nilOr = <A>(decoder: Decoder<A>): Decoder<A | null> => v =>
+  Symbol.is(v) && v.value === 'nil' ? Ok(null) : decoder(v);
+
+const asNumber: Decoder<Big> = v =>
+  Ei.flatMap(asUnit(v), u =>
+    dimEq(u.dim, neutralDimension)
+      ? Ok(u.value)
+      : Err(DimensionMismatch({left: u.dim, right: neutralDimension})));
+
+// Picks the decoder by the `tag` of the node
+const byTag = <A>(what: string, decoders: Record<string, (table: Map<string, Value>) => Partial<A>>): Decoder<A> =>
+  v => Ei.flatMap(asTable(v), table => Ei.flatMap(field(table, 'tag', asSymb), tag =>
+    Object.prototype.hasOwnProperty.call(decoders, tag)
+      ? decoders[tag](table)
+      : Err(NotInDomain({value: v, explanation: `unknown ${what} :${tag}`}))));
+
+
+export const valueToExpr: Decoder<Expr> = v => {
+  const origin = _origins.get(v);
+  return origin === undefined ? _valueToExpr(v) : Ok(origin);
+};
+
+const _valueToExpr: Decoder<Expr> = byTag<Expr>('expression', {
+  Name: t => Ei.map(field(t, 'value', asStr), name => ast.Name(name)),
+  App: t => Ei.map(
+    fields(t, {fun: valueToExpr, arg: valueToExpr}),
+    ({fun, arg}) => ast.makeApp(fun, arg)
+  ),
+  Dec: t => Ei.map(field(t, 'value', asNumber), value => ast.Dec(value)),
+  Str: t => Ei.map(field(t, 'value', asStr), value => ast.Str(value)),
+  Template: t => Ei.flatMap(
+    fields(t, {strings: listOf(asStr), exprs: listOf(valueToExpr)}),
+    template =>
+      template.strings.length === template.exprs.length + 1
+        ? Ok(ast.Template(template))
+        : Err(NotInDomain({value: Table(t), explanation: 'a template needs one more string than expressions'}))
+  ),
+  Symbol: t => Ei.map(field(t, 'value', asStr), name => ast.Symbol(name)),
+  Table: t => Ei.map(
+    field(t, 'value', listOf(entry => Ei.flatMap(asTable(entry), e =>
+      Ei.map(
+        fields(e, {key: nilOr(asStr), value: valueToExpr}),
+        ({key, value}): ast.TableEntry => [key, value]
+      )
+    ))),
+    entries => ast.Table(entries)
+  ),
+  List: t => Ei.map(
+    field(t, 'value', listOf(item => Ei.flatMap(asTable(item), i => fields(i, {expr: valueToExpr, spread: asBool})))),
+    items => ast.List(items)
+  ),
+  Cond: t => Ei.map(
+    fields(t, {condition: valueToExpr, ifTrue: valueToExpr, ifFalse: valueToExpr}),
+    ({condition, ifTrue, ifFalse}) => ast.Cond({if: condition, then: ifTrue, else: ifFalse})
+  ),
+  Lam: t => Ei.map(
+    fields(t, {arg: valueToArg, expr: valueToExpr}),
+    ({arg, expr}) => ast.makeLambda(arg, expr)
+  ),
+  Match: t => Ei.map(
+    fields(t, {
+      subject: valueToExpr,
+      arms: listOf(arm => Ei.flatMap(asTable(arm), a =>
+        fields(a, {pattern: valueToPattern, guard: nilOr(valueToExpr), body: valueToExpr}))),
+    }),
+    match => ast.Match(match)
+  ),
+  Let: t => Ei.map(
+    fields(t, {
+      bindings: listOf(binding => Ei.flatMap(asTable(binding), b => fields(b, {name: asStr, value: valueToExpr}))),
+      body: valueToExpr,
+      recursive: asBool,
+    }),
+    ({bindings, body, recursive}) => ast.Let({bindings, body, rec: recursive})
+  ),
+  Block: t => Ei.map(
+    field(t, 'value', listOf(statement => Ei.flatMap(asTable(statement), s =>
+      fields(s, {name: nilOr(asStr), expr: valueToExpr})))),
+    statements => ast.Block(statements)
+  ),
+  DefineMacro: t => Ei.map(
+    fields(t, {name: asStr, expander: valueToExpr}),
+    defineMacro => ast.DefineMacro(defineMacro)
+  ),
+});
+
+const valueToPattern: Decoder<Pattern> = byTag<Pattern>('pattern', {
+  PatLiteral: t => Ei.map(field(t, 'value', valueToExpr), literal => ast.PatLiteral(literal)),
+  PatArg: t => Ei.map(field(t, 'value', valueToArg), arg => ast.PatArg(arg)),
+});
+
+export const valueToArg: Decoder<LamArg> = byTag<LamArg>('parameter', {
+  ArgSingle: t => Ei.map(field(t, 'value', asStr), name => ast.ArgSingle(name)),
+  ArgTable: t => Ei.map(
+    fields(t, {
+      pairs: listOf(pair => Ei.flatMap(asTable(pair), p =>
+        Ei.map(fields(p, {key: asStr, arg: valueToArg}), ({key, arg}): [string, LamArg] => [key, arg]))),
+      rest: nilOr(valueToArg),
+    }),
+    argTable => ast.ArgTable(argTable)
+  ),
+  ArgList: t => Ei.map(
+    fields(t, {items: listOf(valueToArg), rest: nilOr(valueToArg)}),
+    argList => ast.ArgList(argList)
+  ),
+  ArgDefault: t => Ei.map(
+    fields(t, {arg: valueToArg, default: valueToExpr}),
+    argDefault => ast.ArgDefault(argDefault)
+  ),
+});
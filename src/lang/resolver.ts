@@ -0,0 +1,161 @@
+/**
+ * This module resolves the names of a statement before it runs, so that
+ * looking one up doesn't go through every env between the code and the env
+ * that binds the name.
+ *
+ * A name bound inside the statement gets the address of its binding: how
+ * many envs up it is, and where it is among the names that env binds. Any
+ * other name is global, and is looked up by name from the env the statement
+ * runs in.
+ *
+ * A function only keeps the local names it captures, instead of the whole env
+ * it's made in, so it doesn't keep the rest of the env alive. The exception is
+ * a function that captures a name that `let rec` or a block can still bind
+ * after the function is made.
+ *
+ * The addresses depend on the envs the runtime makes, see `makeLevel` and
+ * `makeClosure` in `./runtime`. Code that hasn't been resolved, like the
+ * code `Refl:eval` runs, looks names up by name and keeps whole envs.
+ */
+
+import { impl, matchWildcard, Variant, WILDCARD } from '@practical-fp/union-types';
+import { Expr, Lambda } from './ast';
+import { bindersOf, children, Node, withChildren } from './visitor';
+import { withHidden, withSpan } from '../language';
+
+
+export type Address =
+  // `index` is where the name is among the names bound by the env `depth` envs up
+  | Variant<'Local', {depth: number, index: number}>
+  // The env of the statement is `depth` envs up
+  | Variant<'Global', number>;
+
+export const { Local, Global } = impl<Address>();
+
+// What a function keeps of the env it's made in: the local names it captures,
+// their addresses there, and how many envs up the env of the statement is.
+// `null` means the whole env.
+export type Captures = {names: string[], addresses: Address[], depth: number} | null;
+
+
+// Both are hidden, like spans, so resolved nodes are still equal to the others
+export const addressOf = (name: Expr): Address | undefined =>
+  (name as {address?: Address}).address;
+
+export const capturesOf = (lambda: Lambda): Captures | undefined =>
+  (lambda as {captures?: Captures}).captures;
+
+// The body of a function as `./optimizer` simplified it, which only runs
+// while the globals it assumes still have the same values, see `enterFunction`.
+// It's resolved like the body itself.
+export type Simplified = {lambda: Lambda, assumptions: [string, unknown][]};
+
+export const simplifiedOf = (lambda: Lambda): Simplified | undefined =>
+  (lambda as {simplified?: Simplified}).simplified;
+
+
+// The names bound by an env, in the order they're bound. `settled` are the
+// ones that can't be bound again, which is all of them unless the env belongs
+// to `let rec` or a block that is still running.
+type Level = {names: string[], settled: ReadonlySet<string> | 'all'};
+
+// Innermost first. The env of the statement comes after the last one.
+type Scope = Level[];
+
+const fixed = (names: string[]): Level => ({names, settled: 'all'});
+
+// The names bound before `index` that aren't bound again from there on
+const settledBefore = (names: (string | null)[], index: number): ReadonlySet<string> => {
+  const later = new Set(names.slice(index));
+  return new Set(names.slice(0, index).filter((name): name is string => name !== null && !later.has(name)));
+};
+
+const find = (name: string, scope: Scope): {depth: number, index: number} | null => {
+  for (const [depth, {names}] of scope.entries()) {
+    // When a name is bound twice, the last one wins
+    const index = names.lastIndexOf(name);
+    if (index !== -1)
+      return {depth, index};
+  }
+  return null;
+};
+
+const addressIn = (name: string, scope: Scope): Address => {
+  const found = find(name, scope);
+  return found === null ? Global(scope.length) : Local(found);
+};
+
+const capturesIn = (lambda: Lambda, scope: Scope): Captures => {
+  const names: string[] = [];
+  const addresses: Address[] = [];
+  for (const name of lambda.capturedNames) {
+    const found = find(name, scope);
+    if (found === null)
+      continue;
+    const {settled} = scope[found.depth];
+    if (settled !== 'all' && !settled.has(name))
+      return null;
+    names.push(name);
+    addresses.push(Local(found));
+  }
+  return {names, addresses, depth: scope.length};
+};
+
+
+// The scope of every child of `node`, in the order of `children(node)`
+const childScopes = (node: Node, scope: Scope): Scope[] =>
+  matchWildcard(node, {
+    Match: ({arms}) => [
+      scope,
+      ...arms.flatMap(({pattern, guard}) => {
+        const arm = [fixed(bindersOf(pattern)), ...scope];
+        return [scope, ...(guard === null ? [] : [arm]), arm];
+      }),
+    ],
+    // Without `rec`, every binding gets an env with the names bound before it
+    Let: ({bindings, rec}) => {
+      const names = bindings.map(({name}) => name);
+      return [
+        ...names.map((_name, i) =>
+          [rec ? {names, settled: settledBefore(names, i)} : fixed(names.slice(0, i)), ...scope]),
+        [fixed(names), ...scope],
+      ];
+    },
+    Block: statements => {
+      const names = statements.map(({name}) => name);
+      const bound = names.filter((name): name is string => name !== null);
+      return names.map((_name, i) => [{names: bound, settled: settledBefore(names, i)}, ...scope]);
+    },
+    [WILDCARD]: () => children(node).map(() => scope),
+  });
+
+const resolveIn = (node: Node, scope: Scope): Node => {
+  if (node.tag === 'Lam') {
+    // Default values are evaluated in the closure, and the body in an env
+    // with the parameters
+    const {arg, expr} = node.value;
+    const captures = capturesIn(node.value, scope);
+    const closureScope = captures === null ? scope : [fixed(captures.names)];
+    const bodyScope = [fixed(bindersOf(arg)), ...closureScope];
+    const lam = withChildren<Node>(node, [
+      resolveIn(arg, closureScope),
+      resolveIn(expr, bodyScope),
+    ]) as Expr & {tag: 'Lam'};
+    let value = withHidden(lam.value, 'captures', captures);
+    const simplified = simplifiedOf(node.value);
+    if (simplified !== undefined) {
+      const body = resolveIn(simplified.lambda.expr, bodyScope) as Expr;
+      value = withHidden(value, 'simplified', {...simplified, lambda: {...simplified.lambda, expr: body}});
+    }
+    return withSpan({...lam, value}, lam.span);
+  }
+
+  const scopes = childScopes(node, scope);
+  const resolved = withChildren(node, children(node).map((child, i) => resolveIn(child, scopes[i])));
+  return resolved.tag === 'Name' ? withHidden(resolved, 'address', addressIn(resolved.value, scope)) : resolved;
+};
+
+/**
+ * Give addresses to the names in `expr`, which is a statement about to run
+ */
+export const resolve = (expr: Expr): Expr => resolveIn(expr, []) as Expr;
@@ -1,16 +1,22 @@
-import {  Expr, Lam, LamArg, Lambda } from './ast';
+import {
+  ArgListT, ArgTableT, Expr, Lam, LamArg, Lambda, LetBinding, ListItem, MatchArm, Pattern, Statement, TableEntry,
+  Template,
+} from './ast';
 import { unparse } from './parser';
+import { encodeString } from './strings';
+import { Address, addressOf, capturesOf, simplifiedOf } from './resolver';
 
 import { Ok, Err, Either } from '../either';
 import * as Ei from '../either';
 
-import { Map } from 'immutable';
+import { List as ImmutableList, Map } from 'immutable';
+import { Span, Spanned, withHidden, withSpan } from '../language';
 import { ColorHandle, identityColorHandle } from './color';
 import { Dimension, makeUnit, Unit as UnitType, UnitSource } from './units';
 import { impl, matchExhaustive, matchWildcard, predicate, Variant, WILDCARD } from '@practical-fp/union-types';
 
 
-const tryLookupName = (name: string, env: Env): Value | null => {
+export const tryLookupName = (name: string, env: Env): Value | null => {
   const rv = env.names.get(name);
   if (rv !== undefined)
     return rv;
@@ -23,22 +29,72 @@ const tryLookupName = (name: string, env: Env): Value | null => {
 export type Env = {
   parent: Env | null;
   names: Map<string, Value>;
+  // The values of the names, in the order they're bound, for the names that
+  // resolved code looks up by address, see `./resolver`. Envs whose names get
+  // bound as the code runs, like the ones of `let rec` and blocks, don't have them.
+  slots?: Value[];
 }
 
+// An env binding `pairs`, which come in the order `bindersOf` lists the names
+export const makeLevel = (parent: Env | null, pairs: [string, Value][]): Env =>
+  ({parent, names: Map(pairs), slots: pairs.map(([_name, value]) => value)});
+
+// The env after `level` with `name` bound too, like the envs of `let`
+export const bindInLevel = (level: Env, name: string, value: Value): Env =>
+  ({parent: level.parent, names: level.names.set(name, value), slots: [...(level.slots || []), value]});
+
+const up = (env: Env, depth: number): Env => {
+  let rv = env;
+  for (let i = 0; i < depth; i++)
+    rv = rv.parent!;
+  return rv;
+};
+
+// Names without an address haven't been resolved, and are looked up by name
+export const lookupName = (name: string, address: Address | undefined, env: Env): Value | null => {
+  if (address === undefined)
+    return tryLookupName(name, env);
+  if (address.tag === 'Global')
+    return tryLookupName(name, up(env, address.value));
+
+  const level = up(env, address.value.depth);
+  const rv = level.slots === undefined ? level.names.get(name) : level.slots[address.value.index];
+  if (rv !== undefined)
+    return rv;
+  // `let rec` and blocks bind their names as they go, so the name can still
+  // refer to an outer one
+  return level.parent && tryLookupName(name, level.parent);
+};
+
+// A function made from resolved code only keeps the names it captures
+export const makeClosure = (lambda: Lambda, env: Env): Value => {
+  const captures = capturesOf(lambda);
+  if (captures === undefined || captures === null)
+    return Fun({fun: lambda, closure: env});
+  const {names, addresses, depth} = captures;
+  const pairs = names.map((name, i): [string, Value] => [name, lookupName(name, addresses[i], env)!]);
+  return Fun({fun: lambda, closure: makeLevel(up(env, depth), pairs)});
+};
+
 
 export type NativeFn = (v: Value, e: Env) => Partial<Value>;
 
-export type FunT = {fun: Lambda, closure: Env};
+// `name` is given to a function when it's bound with `.=` or `IO:define`
+export type FunT = {fun: Lambda, closure: Env, name?: string};
 export type LazyName = string | (() => string);
 
 export type Value =
   | Variant<'Str', string>
   | Variant<'Unit', UnitType>
   | Variant<'Symbol', string>
-  | Variant<'Fun', {fun: Lambda, closure: Env}>
+  | Variant<'Fun', FunT>
   | Variant<'Native', {fun: NativeFn, name: LazyName}>
   | Variant<'Table', Map<string, Value>>
-  | Variant<'Bool', boolean>;
+  | Variant<'List', ImmutableList<Value>>
+  | Variant<'Bool', boolean>
+  // A function from the syntax of its arguments to the syntax that replaces
+  // its use, see `./macros`. It can't be called at runtime.
+  | Variant<'Macro', Value>;
 
 
 const vimpl = impl<Value>();
@@ -48,7 +104,9 @@ export const {
   Fun,
   Native,
   Table,
-  Bool
+  List,
+  Bool,
+  Macro,
 } = vimpl
 
 export const Unit = (...src: UnitSource): Value => vimpl.Unit(makeUnit(...src));
@@ -59,13 +117,23 @@ export const NativeOk = (name: LazyName, fun: (v: Value, e: Env) => Value): Valu
   Native({name, fun: (v, e) => Ok(fun(v, e))})
 
 
-export type RuntimeError =
+export type StackFrame = Readonly<{name: string, span?: Span}>;
+
+// The `span` of a runtime error points at the innermost expression
+// whose evaluation failed. The `trace` lists the function calls the
+// error has travelled out of, innermost first.
+export type RuntimeError = Spanned & { readonly trace?: readonly StackFrame[] } & (
   | Variant<'UnexpectedType', {expected: string, got: Value}>
   | Variant<'MissingKey', string>
   | Variant<'UndefinedName', string>
   | Variant<'DimensionMismatch', {left: Dimension, right: Dimension}>
   | Variant<'NotInDomain', {value: Value, explanation: string}>
+  | Variant<'NoMatch', Value>
+  // More calls were running at once than the recursion limit, which is
+  // the payload, allows, or than the JavaScript stack could hold
+  | Variant<'StackOverflow', number>
   | Variant<'Other', Value>
+);
 
 
 export const {
@@ -74,6 +142,8 @@ export const {
   UndefinedName,
   DimensionMismatch,
   NotInDomain,
+  NoMatch,
+  StackOverflow,
   Other,
 } = impl<RuntimeError>();
 
@@ -86,15 +156,43 @@ export const renderRuntimeError = (error: RuntimeError): Value => {
       UndefinedName: name => ({name: Str(name)}),
       DimensionMismatch: ({left, right}) => ({left: Unit(1, left), right: Unit(1, right)}),
       NotInDomain: ({value, explanation}) => ({value, explanation: Str(explanation)}),
+      NoMatch: value => ({value}),
+      StackOverflow: limit => ({limit: Unit(limit)}),
       Other: value => ({value}),
     });
   return Table(Map({
     error: Str(error.tag),
-    details: Table(Map(details))
+    details: Table(Map(details)),
+    trace: _renderTrace(error.trace || []),
   }));
 };
 
 
+const _renderTrace = (trace: readonly StackFrame[]): Value =>
+  List(ImmutableList(trace.map(({name, span}) => Table(Map<Value>(
+    span === undefined
+    ? {name: Str(name)}
+    : {name: Str(name), file: Str(span.file), line: Unit(span.line), col: Unit(span.col)}
+  )))));
+
+
+// Traces only keep the innermost calls, or a stack overflow would list all of them
+const MAX_TRACE = 100;
+
+export const withFrame = (error: RuntimeError, ...frames: StackFrame[]): RuntimeError =>
+  withHidden(error, 'trace', [...(error.trace || []), ...frames].slice(0, MAX_TRACE));
+
+
+/**
+ * Give a name to a function value, so that it shows up in stack traces.
+ * Functions that already have a name keep it.
+ */
+export const nameFunction = (value: Value, name: string): Value =>
+  Fun.is(value) && value.value.name === undefined
+  ? Fun({...value.value, name})
+  : value;
+
+
 export type Partial<A> = Either<RuntimeError, A>;
 
 
@@ -134,6 +232,12 @@ export const asFun = (v: Value): Partial<FunT> => {
   return Ok(v.value);
 };
 
+export const asList = (v: Value): Partial<ImmutableList<Value>> => {
+  if (!List.is(v))
+    return Err(UnexpectedType({expected: 'list', got: v}));
+  return Ok(v.value);
+};
+
 export const asAny = (v: Value): Partial<Value> => {
   return Ok(v);
 };
@@ -144,6 +248,22 @@ export const asBool = (v: Value): Partial<boolean> => {
   return Ok(v.value)
 };
 
+export const makeMacro = (v: Value): Partial<Value> =>
+  Fun.is(v) || Native.is(v)
+    ? Ok(Macro(v))
+    : Err(UnexpectedType({expected: 'function', got: v}));
+
+// `macro name f` binds `name` in the env the code runs at the top of, like
+// `.=` does, without going through any name the code can change
+export const defineMacro = (name: string, expander: Value, env: Env): Partial<Value> =>
+  Ei.map(makeMacro(expander), macro => {
+    let global = env;
+    while (global.parent !== null)
+      global = global.parent;
+    global.names = global.names.set(name, macro);
+    return macro;
+  });
+
 
 
 export interface PrettyPrintOptions {
@@ -187,7 +307,7 @@ export const prettyPrint = (
     return '...';
 
   return matchExhaustive(value, {
-    Str: s => col.str(JSON.stringify(s)),
+    Str: s => col.str(encodeString(s)),
     Unit: u => col.num(u.toString()),
     Fun: ({fun, closure}) =>
       (fun.capturedNames.length === 0) || !opts.includeWhere
@@ -202,6 +322,12 @@ export const prettyPrint = (
         + [...table.entries()].map(([k, v]) => `${col.name(k)}: ${prettyPrint(v, col, opts, depth + 1)}`).join(', ')
         + col.punctuation('}')
       ),
+    List: list => (
+        col.punctuation('[')
+        + list.map(v => prettyPrint(v, col, opts, depth + 1)).join(', ')
+        + col.punctuation(']')
+      ),
+    Macro: expander => `(${col.constant('Refl:makeMacro')} ${prettyPrint(expander, col, opts, depth + 1)})`,
   })
 };
 
@@ -209,67 +335,633 @@ export const prettyPrint = (
 const ok = (v: Value): Partial<Value> => Ok(v);
 const err = (e: RuntimeError): Partial<Value> => Err(e);
 
-export const interpret = (expr: Expr, env: Env): Partial<Value> => {
-  return matchExhaustive(expr, {
-    Dec: value => ok(Unit(value)),
-    Str: value => ok(Str(value)),
-    Symbol: value => ok(Symbol(value)),
-    Table: pairs => {
-      const rv: [string, Value][] = [];
-      for (const [k, subexpr] of pairs) {
-        const subresult = interpret(subexpr, env);
-        if ('err' in subresult)
-          return subresult;
-        rv.push([k, subresult.ok]);
+// `&&` is `false` as soon as the left operand is `false`, and `||` is `true`
+// as soon as the left operand is `true`. In that case, the right operand isn't
+// even evaluated.
+const evalShortCircuit = (
+  decisive: boolean,
+  left: Partial<Value>,
+  right: () => Partial<Value>,
+): Partial<Value> =>
+  Ei.flatMap(left, l => Ei.flatMap(asBool(l), lb =>
+    lb === decisive
+    ? ok(Bool(lb))
+    : Ei.flatMap(right(), r => Ei.map(asBool(r), Bool))
+  ));
+
+const _boolOp = (name: string, decisive: boolean): Value =>
+  NativeOk(`(${name})`, a => Native({
+    name: () => `(${prettyPrint(a)} ${name})`,
+    fun: b => evalShortCircuit(decisive, ok(a), () => ok(b)),
+  }));
+
+// When used as values, like in `List:fold (&&) true`, they're just functions
+// that take both operands. `interpret` special-cases them when they're applied
+// to two operands right away.
+export const And = _boolOp('&&', false);
+export const Or = _boolOp('||', true);
+
+// If `fun` is `(a &&)` or `(a ||)`, and the operator hasn't been shadowed,
+// return `a` and the value of it that decides the result
+const asShortCircuit = (fun: Expr, env: Env): {left: Expr, decisive: boolean} | null => {
+  const name = shortCircuitOperator(fun);
+  if (name === null)
+    return null;
+  const op = tryLookupName(name.value, env);
+  if (op !== And && op !== Or)
+    return null;
+  return {left: (fun as Expr & {tag: 'App'}).value.arg, decisive: op === Or};
+};
+
+
+/// Calls
+//
+// The backends keep track of the calls they make the same way, with these.
+
+
+// The number of calls that are running, shared by all the machines that
+// natives start by calling `applyFunction`, like `List:map` does, whatever
+// their backends
+export type Run = {depth: number, limit: number};
+let _run: Run | null = null;
+
+// A call that isn't a tail call counts towards the limit
+export const countCall = (run: Run): RuntimeError | null => {
+  if (run.depth >= run.limit)
+    return StackOverflow(run.limit);
+  run.depth++;
+  return null;
+};
+
+export const callFrame = (name: string, span: Span | undefined): StackFrame =>
+  span === undefined ? {name} : {name, span};
+
+// A function that is running, and the tail calls that have replaced it
+export type RunningCall = {frame: StackFrame, tailCalls: StackFrame[]};
+
+export const tailCall = ({frame: caller, tailCalls}: RunningCall, frame: StackFrame): RunningCall =>
+  ({frame, tailCalls: [caller, ...tailCalls].slice(0, MAX_TAIL_CALLS)});
+
+// A function that has been entered, whose body has yet to run in `env`
+export type Entered = {frame: StackFrame, lambda: Lambda, env: Env};
+
+/**
+ * Apply `fun` to `arg`, called from `env` at `span`, except for running the
+ * body of a function, which every backend does its own way. The errors
+ * don't have a span yet.
+ */
+export const enterFunction = (fun: Value, arg: Value, env: Env, span: Span | undefined): Partial<Value> | Entered =>
+  matchWildcard(fun, {
+    Native: ({fun: native, name}) => {
+      const rv = native(arg, env);
+      if ('ok' in rv)
+        return rv;
+      return err(withFrame(rv.err, callFrame(typeof name === 'string' ? name : name(), span)));
+    },
+
+    // `env` is where the function is called from, and `closure` is where it was defined
+    Fun: ({fun: lambda, closure, name}) => {
+      const frame = callFrame(name || '<lambda>', span);
+      const bound = bindNames(lambda.arg, arg, env, closure);
+      if ('err' in bound)
+        return err(withFrame(bound.err, frame));
+      const bodyEnv = makeLevel(closure, bound.ok);
+
+      // `f x y` should still be called `f` after `x` is applied
+      if (lambda.expr.tag === 'Lam') {
+        const rv = makeClosure(lambda.expr.value, bodyEnv);
+        return ok(name === undefined ? rv : nameFunction(rv, name));
       }
-      return ok(Table(Map(rv)));
+      // The body simplified by `./optimizer` only runs while the globals
+      // it assumes haven't been redefined
+      const simplified = simplifiedOf(lambda);
+      const body =
+        simplified !== undefined
+        && simplified.assumptions.every(([global, value]) => tryLookupName(global, closure) === value)
+        ? simplified.lambda
+        : lambda;
+      return {frame, lambda: body, env: bodyEnv};
+    },
+
+    Table: table => {
+      if (arg.tag !== 'Symbol')
+        return err(UnexpectedType({expected: 'symbol', got: arg}));
+      const rv = table.get(arg.value);
+      return rv === undefined ? err(MissingKey(arg.value)) : ok(rv);
     },
+
+    [WILDCARD]: () => err(UnexpectedType({expected: 'table|function|native', got: fun})),
+  });
+
+/**
+ * Run a machine of one of the backends, with `applier` running the functions
+ * that natives call. A machine started by a native shares the recursion limit
+ * of the one that called the native. Calls from natives still use the
+ * JavaScript stack, so it can overflow before the limit is reached.
+ */
+export const startMachine = (
+  limit: number,
+  applier: Applier,
+  machine: (run: Run) => Partial<Value>,
+): Partial<Value> => {
+  const outermost = _run === null;
+  const run: Run = _run ?? {depth: 0, limit};
+  const depth = run.depth;
+  _run = run;
+  try {
+    return withApplier(applier, () => machine(run));
+  } catch (e) {
+    if (outermost && e instanceof RangeError)
+      return err(StackOverflow(run.limit));
+    throw e;
+  } finally {
+    run.depth = depth;
+    if (outermost)
+      _run = null;
+  }
+};
+
+// `(a &&)` and `(a ||)` are special-cased by every backend, unless the
+// operator has been shadowed
+export const shortCircuitOperator = (fun: Expr): (Expr & {tag: 'Name'}) | null =>
+  fun.tag === 'App' && fun.value.fun.tag === 'Name' && ['&&', '||'].includes(fun.value.fun.value)
+  ? fun.value.fun
+  : null;
+
+
+/// Evaluation
+//
+// `interpret` is a machine, which keeps what's left to do after the current
+// expression in a stack of frames on the heap, instead of on the JavaScript
+// stack. Its state is an expression to evaluate, a function to apply, or a
+// value or error to hand to the innermost frame.
+//
+// A function applied as the last thing another function does replaces the
+// frame of the caller (a tail call), so loops written as recursion run in
+// constant space. Other calls count towards a recursion limit, and going past
+// it is a `StackOverflow` error.
+
+
+export const DEFAULT_RECURSION_LIMIT = 100000;
+
+// A frame replaced by tail calls remembers this many of them for stack traces
+export const MAX_TAIL_CALLS = 8;
+
+
+// `expr` is the application, if the function is applied by one
+type Application = {fun: Value, arg: Value, env: Env, expr: Expr | undefined};
+
+type State =
+  | Variant<'Eval', {expr: Expr, env: Env}>
+  | Variant<'Apply', Application>
+  | Variant<'Return', Value>
+  | Variant<'Raise', RuntimeError>;
+
+const { Eval, Apply, Return, Raise } = impl<State>();
+
+// Every frame but `Call` waits for a part of `expr`
+type Frame =
+  | Variant<'AppFun', {arg: Expr, env: Env, expr: Expr}>
+  | Variant<'AppArg', {fun: Value, env: Env, expr: Expr}>
+  | Variant<'TemplatePart', {template: Template, index: number, text: string, env: Env, expr: Expr}>
+  | Variant<'TableEntryValue', {entries: TableEntry[], index: number, values: [string, Value][], env: Env, expr: Expr}>
+  | Variant<'ListItemValue', {items: ListItem[], index: number, values: ImmutableList<Value>, env: Env, expr: Expr}>
+  | Variant<'CondTest', {cond: {then: Expr, else: Expr}, env: Env, expr: Expr}>
+  | Variant<'MatchSubject', {arms: MatchArm[], env: Env, expr: Expr}>
+  | Variant<'MatchGuard', {subject: Value, arms: MatchArm[], index: number, armEnv: Env, env: Env, expr: Expr}>
+  | Variant<'LetValue', {
+    bindings: LetBinding[], body: Expr, rec: boolean, index: number, letEnv: Env, env: Env, expr: Expr,
+  }>
+  | Variant<'BlockValue', {statements: Statement[], index: number, blockEnv: Env, expr: Expr}>
+  | Variant<'MacroExpander', {name: string, env: Env, expr: Expr}>
+  | Variant<'LeftOperand', {decisive: boolean, right: Expr, env: Env, expr: Expr}>
+  | Variant<'RightOperand', {expr: Expr}>
+  | Variant<'Call', RunningCall>;
+
+const {
+  AppFun, AppArg, TemplatePart, TableEntryValue, ListItemValue, CondTest,
+  MatchSubject, MatchGuard, LetValue, BlockValue, MacroExpander, LeftOperand, RightOperand, Call,
+} = impl<Frame>();
+
+
+// The innermost expression that fails is where the error happened
+const raiseAt = (error: RuntimeError, expr: Expr | undefined): State =>
+  Raise(error.span === undefined && expr !== undefined ? withSpan(error, expr.span) : error);
+
+
+const evaluate = (expr: Expr, env: Env, stack: Frame[]): State => {
+  const evalNext = (frame: Frame, next: Expr, nextEnv: Env = env): State => {
+    stack.push(frame);
+    return Eval({expr: next, env: nextEnv});
+  };
+
+  return matchExhaustive(expr, {
+    Dec: value => Return(Unit(value)),
+    Str: value => Return(Str(value)),
+    Symbol: value => Return(Symbol(value)),
     Name: name => {
-      const result = tryLookupName(name, env);
-      if (result === null)
-        return err(UndefinedName(name));
-      return ok(result);
+      const value = lookupName(name, addressOf(expr), env);
+      return value === null ? raiseAt(UndefinedName(name), expr) : Return(value);
     },
-    App: ({fun, arg}) => Ei.flatMap(
-      interpret(fun, env),
-      f => Ei.flatMap(
-        interpret(arg, env),
-        a => applyFunction(f, a, env)
-      )
-    ),
-    Lam: lam => ok(Fun({fun: lam, closure: env})),
-    Cond: cond => ifThenElse(cond.if, cond.then, cond.else, env)
+    Lam: lam => Return(makeClosure(lam, env)),
+    Template: template =>
+      template.exprs.length === 0
+      ? Return(Str(template.strings[0]))
+      : evalNext(TemplatePart({template, index: 0, text: template.strings[0], env, expr}), template.exprs[0]),
+    Table: entries =>
+      entries.length === 0
+      ? Return(Table(Map<string, Value>()))
+      : evalNext(TableEntryValue({entries, index: 0, values: [], env, expr}), entries[0][1]),
+    List: items =>
+      items.length === 0
+      ? Return(List(ImmutableList()))
+      : evalNext(ListItemValue({items, index: 0, values: ImmutableList(), env, expr}), items[0].expr),
+    App: ({fun, arg}) => {
+      const shortCircuit = asShortCircuit(fun, env);
+      if (shortCircuit !== null)
+        return evalNext(LeftOperand({decisive: shortCircuit.decisive, right: arg, env, expr}), shortCircuit.left);
+      return evalNext(AppFun({arg, env, expr}), fun);
+    },
+    Cond: cond => evalNext(CondTest({cond, env, expr}), cond.if),
+    Match: ({subject, arms}) => evalNext(MatchSubject({arms, env, expr}), subject),
+    // The names are bound in a child of `env`, so they don't leak out of the
+    // expression. Without `rec`, every binding gets a new env with the names
+    // bound so far. With `rec`, they all share one env, which gets filled in as
+    // the bindings are evaluated, so functions can see the names that come later.
+    Let: ({bindings, body, rec}) => {
+      const letEnv: Env = rec ? {parent: env, names: Map()} : makeLevel(env, []);
+      if (bindings.length === 0)
+        return Eval({expr: body, env: letEnv});
+      return evalNext(LetValue({bindings, body, rec, index: 0, letEnv, env, expr}), bindings[0].value, letEnv);
+    },
+    // Every time the block runs, it gets a fresh env for its names. The statements
+    // share it, so just like with `.=` at the top level, a function defined in
+    // the block sees the names bound after it. The value of a block is the value
+    // of its last statement.
+    Block: statements => {
+      const blockEnv: Env = {parent: env, names: Map()};
+      if (statements.length === 0)
+        return Return(Table(Map<string, Value>()));
+      return runStatement(statements, 0, blockEnv, expr, stack);
+    },
+    DefineMacro: ({name, expander}) => evalNext(MacroExpander({name, env, expr}), expander),
   });
 };
 
 
-const ifThenElse = (ifExpr: Expr, thenExpr: Expr, elseExpr: Expr, env: Env): Partial<Value> => {
-  const condition = interpret(ifExpr, env);
-  if ('err' in condition)
-    return condition;
+// The value of the last statement is the value of the block, so it's
+// returned right away, unless it binds a name
+const runStatement = (statements: Statement[], index: number, blockEnv: Env, expr: Expr, stack: Frame[]): State => {
+  const statement = statements[index];
+  if (index + 1 < statements.length || statement.name !== null)
+    stack.push(BlockValue({statements, index, blockEnv, expr}));
+  return Eval({expr: statement.expr, env: blockEnv});
+};
 
-  if (condition.ok.tag !== 'Bool')
-    return Err(UnexpectedType({expected: 'boolean', got: condition.ok}));
 
-  return interpret(
-    condition.ok.value ? thenExpr : elseExpr,
-    env
-  );
+// Try the arms of a `match`, starting with the one at `from`
+const matchArms = (subject: Value, arms: MatchArm[], from: number, env: Env, expr: Expr, stack: Frame[]): State => {
+  for (let index = from; index < arms.length; index++) {
+    const {pattern, guard, body} = arms[index];
+    const bindings = matchPattern(pattern, subject, env);
+    if ('err' in bindings)
+      return raiseAt(bindings.err, expr);
+    if (bindings.ok === null)
+      continue;
+
+    const armEnv = makeLevel(env, bindings.ok);
+    if (guard === null)
+      return Eval({expr: body, env: armEnv});
+    stack.push(MatchGuard({subject, arms, index, armEnv, env, expr}));
+    return Eval({expr: guard, env: armEnv});
+  }
+  return raiseAt(NoMatch(subject), expr);
 };
 
 
-export const bindNames = (declaration: LamArg, argument: Value, env: Env): Partial<[string, Value][]> => {
-  if (declaration.tag === 'ArgSingle')
-    return Ok([[declaration.value, argument]]);
+// Hand `value` to `frame`, which has just been taken off the stack
+const resume = (frame: Frame, value: Value, stack: Frame[], run: Run): State => {
+  const evalNext = (next: Frame, expr: Expr, env: Env): State => {
+    stack.push(next);
+    return Eval({expr, env});
+  };
+
+  return matchExhaustive(frame, {
+    AppFun: ({arg, env, expr}) => evalNext(AppArg({fun: value, env, expr}), arg, env),
+    AppArg: ({fun, env, expr}) => Apply({fun, arg: value, env, expr}),
+    // Strings are spliced in as they are, everything else is pretty-printed
+    TemplatePart: ({template, index, text, env, expr}) => {
+      const next = text + (Str.is(value) ? value.value : prettyPrint(value)) + template.strings[index + 1];
+      if (index + 1 === template.exprs.length)
+        return Return(Str(next));
+      return evalNext(
+        TemplatePart({template, index: index + 1, text: next, env, expr}),
+        template.exprs[index + 1],
+        env
+      );
+    },
+    // When a key appears more than once, the last value wins. The frame is
+    // only resumed once, so it can add to `values` in place.
+    TableEntryValue: ({entries, index, values, env, expr}) => {
+      const key = entries[index][0];
+      if (key !== null) {
+        values.push([key, value]);
+      } else {
+        const spread = asTable(value);
+        if ('err' in spread)
+          return raiseAt(spread.err, expr);
+        values.push(...spread.ok.entries());
+      }
+      if (index + 1 === entries.length)
+        return Return(Table(Map(values)));
+      return evalNext(TableEntryValue({entries, index: index + 1, values, env, expr}), entries[index + 1][1], env);
+    },
+    ListItemValue: ({items, index, values, env, expr}) => {
+      let newValues = values;
+      if (!items[index].spread) {
+        newValues = values.push(value);
+      } else {
+        const spreadItems = asList(value);
+        if ('err' in spreadItems)
+          return raiseAt(spreadItems.err, expr);
+        newValues = values.concat(spreadItems.ok);
+      }
+      if (index + 1 === items.length)
+        return Return(List(newValues));
+      return evalNext(
+        ListItemValue({items, index: index + 1, values: newValues, env, expr}),
+        items[index + 1].expr,
+        env
+      );
+    },
+    CondTest: ({cond, env, expr}) =>
+      Bool.is(value)
+      ? Eval({expr: value.value ? cond.then : cond.else, env})
+      : raiseAt(UnexpectedType({expected: 'boolean', got: value}), expr),
+    MatchSubject: ({arms, env, expr}) => matchArms(value, arms, 0, env, expr, stack),
+    MatchGuard: ({subject, arms, index, armEnv, env, expr}) => {
+      if (!Bool.is(value))
+        return raiseAt(UnexpectedType({expected: 'boolean', got: value}), expr);
+      if (!value.value)
+        return matchArms(subject, arms, index + 1, env, expr, stack);
+      return Eval({expr: arms[index].body, env: armEnv});
+    },
+    LetValue: ({bindings, body, rec, index, letEnv, env, expr}) => {
+      const {name} = bindings[index];
+      let nextEnv = letEnv;
+      if (rec)
+        letEnv.names = letEnv.names.set(name, nameFunction(value, name));
+      else
+        nextEnv = bindInLevel(letEnv, name, nameFunction(value, name));
+      if (index + 1 === bindings.length)
+        return Eval({expr: body, env: nextEnv});
+      return evalNext(
+        LetValue({bindings, body, rec, index: index + 1, letEnv: nextEnv, env, expr}),
+        bindings[index + 1].value,
+        nextEnv
+      );
+    },
+    BlockValue: ({statements, index, blockEnv, expr}) => {
+      const {name} = statements[index];
+      let rv = value;
+      if (name !== null) {
+        rv = nameFunction(value, name);
+        blockEnv.names = blockEnv.names.set(name, rv);
+      }
+      if (index + 1 === statements.length)
+        return Return(rv);
+      return runStatement(statements, index + 1, blockEnv, expr, stack);
+    },
+    MacroExpander: ({name, env, expr}) => {
+      const macro = defineMacro(name, value, env);
+      return 'ok' in macro ? Return(macro.ok) : raiseAt(macro.err, expr);
+    },
+    // `&&` is `false` as soon as the left operand is `false`, and `||` is `true`
+    // as soon as the left operand is `true`. In that case, the right operand
+    // isn't even evaluated.
+    LeftOperand: ({decisive, right, env, expr}) => {
+      const left = asBool(value);
+      if ('err' in left)
+        return raiseAt(left.err, expr);
+      if (left.ok === decisive)
+        return Return(Bool(left.ok));
+      return evalNext(RightOperand({expr}), right, env);
+    },
+    RightOperand: ({expr}) => {
+      const right = asBool(value);
+      return 'err' in right ? raiseAt(right.err, expr) : Return(Bool(right.ok));
+    },
+    Call: () => {
+      run.depth--;
+      return Return(value);
+    },
+  });
+};
+
+
+// Returns the state to continue with, if the function can't be entered
+const enterCall = (frame: StackFrame, expr: Expr | undefined, stack: Frame[], run: Run): State | null => {
+  const top = stack[stack.length - 1];
+  if (top !== undefined && top.tag === 'Call') {
+    stack[stack.length - 1] = Call(tailCall(top.value, frame));
+    return null;
+  }
+  const overflow = countCall(run);
+  if (overflow !== null)
+    return raiseAt(overflow, expr);
+  stack.push(Call({frame, tailCalls: []}));
+  return null;
+};
+
+const apply = ({fun, arg, env, expr}: Application, stack: Frame[], run: Run): State => {
+  const entered = enterFunction(fun, arg, env, expr?.span);
+  if ('ok' in entered)
+    return Return(entered.ok);
+  if ('err' in entered)
+    return raiseAt(entered.err, expr);
+  return enterCall(entered.frame, expr, stack, run) ?? Eval({expr: entered.lambda.expr, env: entered.env});
+};
+
+// Take the frames off the stack, adding the calls to the trace of the error
+const unwind = (error: RuntimeError, stack: Frame[], run: Run): RuntimeError => {
+  let rv = error;
+  const calls: StackFrame[] = [];
+  for (let frame = stack.pop(); frame !== undefined; frame = stack.pop()) {
+    const span = frame.tag === 'Call' ? frame.value.frame.span : frame.value.expr.span;
+    if (rv.span === undefined && span !== undefined)
+      rv = withSpan(rv, span);
+    if (frame.tag === 'Call') {
+      run.depth--;
+      calls.push(frame.value.frame, ...frame.value.tailCalls);
+    }
+  }
+  return calls.length === 0 ? rv : withFrame(rv, ...calls);
+};
+
+const runMachine = (initial: State, run: Run): Partial<Value> => {
+  const stack: Frame[] = [];
+  let state = initial;
+  for (;;) {
+    if (Eval.is(state)) {
+      state = evaluate(state.value.expr, state.value.env, stack);
+    } else if (Apply.is(state)) {
+      state = apply(state.value, stack, run);
+    } else if (Raise.is(state)) {
+      return err(unwind(state.value, stack, run));
+    } else {
+      const frame = stack.pop();
+      if (frame === undefined)
+        return ok(state.value);
+      state = resume(frame, state.value, stack, run);
+    }
+  }
+};
+
+const start = (initial: State, limit: number): Partial<Value> =>
+  startMachine(limit, applyOnMachine, run => runMachine(initial, run));
+
+export const interpret = (expr: Expr, env: Env, recursionLimit: number = DEFAULT_RECURSION_LIMIT): Partial<Value> => {
+  const rv = start(Eval({expr, env}), recursionLimit);
+  if ('err' in rv && rv.err.span === undefined && expr.span !== undefined)
+    return err(withSpan(rv.err, expr.span));
+  return rv;
+};
+
+
+// Natives call functions with `applyFunction`, which runs them on the backend
+// that called the native, see `./compiler`
+export type Applier = (callable: Value, arg: Value, env: Env) => Partial<Value>;
+let _applier: Applier | null = null;
+
+export const withApplier = <A>(applier: Applier, f: () => A): A => {
+  const previous = _applier;
+  _applier = applier;
+  try {
+    return f();
+  } finally {
+    _applier = previous;
+  }
+};
+
+const applyOnMachine: Applier = (callable, arg, env) =>
+  start(Apply({fun: callable, arg, env, expr: undefined}), DEFAULT_RECURSION_LIMIT);
+
+export const applyFunction = (callable: Value, arg: Value, env: Env): Partial<Value> =>
+  (_applier ?? applyOnMachine)(callable, arg, env);
+
+
+type MatchResult = Partial<[string, Value][] | null>;
+
+// Returns the names bound by the pattern, or `null` if the value doesn't match it.
+// Default values in table patterns are evaluated in `env`.
+export const matchPattern = (pattern: Pattern, value: Value, env: Env): MatchResult =>
+  matchExhaustive(pattern, {
+    PatLiteral: (literal): MatchResult =>
+      Ok(matchWildcard(literal, {
+        Dec: d => Unit.is(value) && value.value.equals(d),
+        Str: s => Str.is(value) && value.value === s,
+        Symbol: s => Symbol.is(value) && value.value === s,
+        Name: n => Bool.is(value) && `${value.value}` === n,
+        [WILDCARD]: () => false,
+      }) ? [] : null),
+    PatArg: arg => matchArg(arg, value, env),
+  });
+
+
+// Unlike `bindNames`, this doesn't call the value to get the keys out of it,
+// so only actual tables and lists match table and list patterns
+const matchArg = (arg: LamArg, value: Value, env: Env): MatchResult => {
+  const matchAll = (pairs: [LamArg, Value][]): MatchResult => {
+    const rv: [string, Value][] = [];
+    for (const [subArg, subValue] of pairs) {
+      const bindings = matchArg(subArg, subValue, env);
+      if ('err' in bindings || bindings.ok === null)
+        return bindings;
+      rv.push(...bindings.ok);
+    }
+    return Ok(rv);
+  };
+
+  return matchExhaustive(arg, {
+    ArgSingle: (name): MatchResult => Ok([[name, value]]),
+    ArgTable: ({pairs, rest}): MatchResult => {
+      if (!Table.is(value))
+        return Ok(null);
+      const table = value.value;
+      const subMatches: [LamArg, Value][] = [];
+      for (const [key, subArg] of pairs) {
+        const subValue = table.get(key);
+        if (subValue !== undefined) {
+          subMatches.push([subArg, subValue]);
+          continue;
+        }
+        if (subArg.tag !== 'ArgDefault')
+          return Ok(null);
+        const defaultValue = interpret(subArg.value.default, env);
+        if ('err' in defaultValue)
+          return defaultValue;
+        subMatches.push([subArg, defaultValue.ok]);
+      }
+      if (rest !== null)
+        subMatches.push([rest, Table(table.deleteAll(pairs.map(([key, _]) => key)))]);
+      return matchAll(subMatches);
+    },
+    ArgDefault: ({arg: target}) => matchArg(target, value, env),
+    ArgList: ({items, rest}): MatchResult => {
+      if (!List.is(value))
+        return Ok(null);
+      const list = value.value;
+      if (rest === null ? list.size !== items.length : list.size < items.length)
+        return Ok(null);
+      return matchAll([
+        ...items.map((item, i): [LamArg, Value] => [item, list.get(i)!]),
+        ...(rest === null ? [] : [[rest, List(list.slice(items.length))] as [LamArg, Value]]),
+      ]);
+    },
+  });
+};
 
+
+// `env` is where the function is called from, and `closure` is where it was
+// defined. Default values of table parameters are evaluated in the closure.
+export const bindNames = (
+  declaration: LamArg,
+  argument: Value,
+  env: Env,
+  closure: Env,
+): Partial<[string, Value][]> =>
+  matchExhaustive(declaration, {
+    ArgSingle: (name): Partial<[string, Value][]> => Ok([[name, argument]]),
+    ArgTable: table => bindTableNames(table, argument, env, closure),
+    ArgList: list => bindListNames(list, argument, env, closure),
+    ArgDefault: ({arg}) => bindNames(arg, argument, env, closure),
+  });
+
+
+const bindTableNames = (
+  {pairs, rest}: ArgTableT,
+  argument: Value,
+  env: Env,
+  closure: Env,
+): Partial<[string, Value][]> => {
   const rv: [string, Value][] = [];
 
-  for (const [src, target] of declaration.value) {
-    const newBindings =
-      Ei.flatMap(
-        applyFunction(argument, Symbol(src), env),
-        subBinding => bindNames(target, subBinding, env)
-      );
+  for (const [src, target] of pairs) {
+    let subBinding = applyFunction(argument, Symbol(src), env);
+    if ('err' in subBinding && subBinding.err.tag === 'MissingKey' && target.tag === 'ArgDefault')
+      subBinding = interpret(target.value.default, closure);
+    const newBindings = Ei.flatMap(subBinding, v => bindNames(target, v, env, closure));
+    if ('err' in newBindings)
+      return newBindings;
+    rv.push(...newBindings.ok);
+  }
+
+  if (rest !== null) {
+    // Only an actual table knows which keys it has
+    const newBindings = Ei.flatMap(
+      asTable(argument),
+      table => bindNames(rest, Table(table.deleteAll(pairs.map(([src, _]) => src))), env, closure)
+    );
     if ('err' in newBindings)
       return newBindings;
     rv.push(...newBindings.ok);
@@ -279,27 +971,37 @@ export const bindNames = (declaration: LamArg, argument: Value, env: Env): Parti
 };
 
 
-export const applyFunction = (callable: Value, arg: Value, env: Env): Partial<Value> =>
-  matchWildcard(callable, {
-    Native: ({fun}) => fun(arg, env),
-
-    Fun: ({fun, closure}) => Ei.flatMap(
-      bindNames(fun.arg, arg, env),
-      boundNames =>
-        interpret(
-          fun.expr,
-          { parent: closure, names: Map(boundNames) }
-        )
-    ),
-
-    Table: table => {
-      if (arg.tag !== 'Symbol')
-        return err(UnexpectedType({expected: 'symbol', got: arg}));
-      const rv = table.get(arg.value);
-      if (rv === undefined)
-        return err(MissingKey(arg.value));
-      return ok(rv)
-    },
+const bindListNames = (
+  {items, rest}: ArgListT,
+  argument: Value,
+  env: Env,
+  closure: Env,
+): Partial<[string, Value][]> => {
+  const list = asList(argument);
+  if ('err' in list)
+    return list;
+
+  if (rest === null ? list.ok.size !== items.length : list.ok.size < items.length)
+    return Err(NotInDomain({
+      value: argument,
+      explanation:
+        rest === null
+        ? `expected a list of length ${items.length}`
+        : `expected a list of length ${items.length} or more`,
+    }));
 
-    [WILDCARD]: () => err(UnexpectedType({expected: 'table|function|native', got: callable}))
-  });
+  const rv: [string, Value][] = [];
+  for (const [i, item] of items.entries()) {
+    const newBindings = bindNames(item, list.ok.get(i)!, env, closure);
+    if ('err' in newBindings)
+      return newBindings;
+    rv.push(...newBindings.ok);
+  }
+  if (rest !== null) {
+    const newBindings = bindNames(rest, List(list.ok.slice(items.length)), env, closure);
+    if ('err' in newBindings)
+      return newBindings;
+    rv.push(...newBindings.ok);
+  }
+  return Ok(rv);
+};
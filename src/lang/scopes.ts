@@ -0,0 +1,100 @@
+/**
+ * This module has the scoping rules of the syntax tree: the children of
+ * every node (see `./visitor`), and the local names a node binds for each of
+ * them. It only needs the types of `./ast`, so `./ast` can use it to find
+ * the names a function captures.
+ */
+
+import { matchExhaustive } from '@practical-fp/union-types';
+import { Expr, LamArg, Pattern } from './ast';
+
+
+export type Node = Expr | LamArg | Pattern;
+
+const EXPR_TAGS: ReadonlySet<string> = new Set([
+  'Name', 'App', 'Dec', 'Str', 'Template', 'Symbol', 'Table', 'List', 'Cond', 'Lam', 'Match', 'Let', 'Block', 'DefineMacro',
+]);
+const ARG_TAGS: ReadonlySet<string> = new Set(['ArgSingle', 'ArgTable', 'ArgList', 'ArgDefault']);
+
+export const isExpr = (node: Node): node is Expr => EXPR_TAGS.has(node.tag);
+export const isArg = (node: Node): node is LamArg => ARG_TAGS.has(node.tag);
+export const isPattern = (node: Node): node is Pattern => !isExpr(node) && !isArg(node);
+
+
+/// Children
+
+
+// A child, along with the local names its parent binds for it
+export type Child = {node: Node, binds: string[]};
+
+const free = (node: Node): Child => ({node, binds: []});
+
+// The names bound by a parameter or a pattern
+export const bindersOf = (node: Node): string[] =>
+  node.tag === 'ArgSingle'
+    ? [node.value]
+    : isExpr(node) ? [] : children(node).flatMap(bindersOf);
+
+export const scopedChildren = (node: Node): Child[] =>
+  matchExhaustive(node, {
+    Name: () => [],
+    Dec: () => [],
+    Str: () => [],
+    Symbol: () => [],
+    App: ({fun, arg}) => [free(fun), free(arg)],
+    Template: ({exprs}) => exprs.map(free),
+    Table: entries => entries.map(([_key, value]) => free(value)),
+    List: items => items.map(({expr}) => free(expr)),
+    Cond: c => [free(c.if), free(c.then), free(c.else)],
+    // Default values are evaluated in the closure, so they can't see the parameters
+    Lam: ({arg, expr}) => [free(arg), {node: expr, binds: bindersOf(arg)}],
+    Match: ({subject, arms}) => [
+      free(subject),
+      ...arms.flatMap(({pattern, guard, body}) => {
+        const binds = bindersOf(pattern);
+        return [free(pattern), ...(guard === null ? [] : [{node: guard, binds}]), {node: body, binds}];
+      }),
+    ],
+    Let: ({bindings, body, rec}) => {
+      const names = bindings.map(({name}) => name);
+      return [
+        ...bindings.map(({value}, i) => ({node: value, binds: rec ? names : names.slice(0, i)})),
+        {node: body, binds: names},
+      ];
+    },
+    // Like with `let rec`, every statement can see all the names bound in the block
+    Block: statements => {
+      const names = statements.flatMap(({name}) => name === null ? [] : [name]);
+      return statements.map(({expr}) => ({node: expr, binds: names}));
+    },
+    DefineMacro: ({expander}) => [free(expander)],
+    ArgSingle: () => [],
+    ArgTable: ({pairs, rest}) => [...pairs.map(([_key, target]) => target), ...(rest ? [rest] : [])].map(free),
+    ArgList: ({items, rest}) => [...items, ...(rest ? [rest] : [])].map(free),
+    ArgDefault: ({arg, default: fallback}) => [free(arg), free(fallback)],
+    PatLiteral: literal => [free(literal)],
+    PatArg: arg => [free(arg)],
+  });
+
+export const extend = (bound: ReadonlySet<string>, binds: string[]): ReadonlySet<string> =>
+  binds.length === 0 ? bound : new Set([...bound, ...binds]);
+
+export const children = (node: Node): Node[] =>
+  scopedChildren(node).map(child => child.node);
+
+// The names a node uses that aren't bound inside of it or in `bound`
+export const freeNames = (node: Node, bound: Iterable<string> = []): string[] => {
+  const names = new Set<string>();
+  const go = (n: Node, visible: ReadonlySet<string>) => {
+    const add = (name: string) => visible.has(name) || names.add(name);
+    if (n.tag === 'Name')
+      add(n.value);
+    // The captured names of a function are already known
+    if (n.tag === 'Lam')
+      n.value.capturedNames.forEach(add);
+    else
+      scopedChildren(n).forEach(({node: child, binds}) => go(child, extend(visible, binds)));
+  };
+  go(node, new Set(bound));
+  return [...names];
+};
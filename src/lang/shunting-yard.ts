@@ -9,14 +9,24 @@
 
 
 import { matchExhaustive } from '@practical-fp/union-types';
-import { Op, Ops, Expr, App, Name, ParseOptions, Priority } from './ast';
+import { Op, Operand, Ops, Expr, Name, ParseOptions, Prio, Priority, makeApp } from './ast';
+import { withSpan } from '../language';
+import { Either, Err, Ok } from '../either';
 
 
-const opsToStream: (ops: Ops) => Iterable<{op: Op}|{app: Expr}> =
+const opsToStream: (ops: Ops) => Iterable<{op: Op}|{prefix: Op}|{app: Expr}> =
   function* (ops: Ops) {
-    yield {app: ops.initial};
-    for (const [op, app] of ops.chunks)
-      yield* [{op}, {app}];
+    const operand = function* ({prefixes, expr}: Operand) {
+      for (const prefix of prefixes)
+        yield {prefix};
+      yield {app: expr};
+    };
+
+    yield* operand(ops.initial);
+    for (const [op, app] of ops.chunks) {
+      yield {op};
+      yield* operand(app);
+    }
   };
 
 const getPriority =
@@ -26,17 +36,39 @@ const getPriority =
 ): Priority =>
   matchExhaustive(operator, {
     ExprOp: () => options.backtickPriority,
-    InfixOp: name => options.priorities[name] || options.defaultPriority
+    InfixOp: name => options.priorities[name] || options.defaultPriority,
+    // Only the strength matters, because the operator has nothing on its left
+    PrefixOp: name => Prio(options.prefixOperators[name].strength, 'right'),
   });
 
 
 
+const describeOp = (operator: Op): string =>
+  matchExhaustive(operator, {
+    ExprOp: () => 'a backticked function',
+    InfixOp: name => `\`${name}\``,
+    PrefixOp: name => `\`${name}\``,
+  });
+
+// `a == b == c` could mean either `(a == b) == c` or `a == (b == c)`,
+// so if `==` is non-associative, it has to be written with parentheses
+const chainingError = (op: Op, previous: Op, options: ParseOptions): string => {
+  const [nonAssociative, other] =
+    getPriority(op, options).direction === 'none' ? [op, previous] : [previous, op];
+  const what =
+    describeOp(op) === describeOp(previous)
+    ? `${describeOp(op)} can't be chained`
+    : `${describeOp(nonAssociative)} can't be chained with ${describeOp(other)}`;
+  return `${what} without parentheses, because ${describeOp(nonAssociative)} is non-associative`;
+};
+
 
+// Fails with an error message if a non-associative operator is chained
 export const shuntingYard = (
   ops: Ops,
   options: ParseOptions
-): Expr => {
-  const app = (fun: Expr, arg: Expr) => App({fun, arg});
+): Either<string, Expr> => {
+  const app = makeApp;
 
   const exprStack: Expr[] = [];
   const opStack: Op[] = [];
@@ -46,11 +78,11 @@ export const shuntingYard = (
   const reduce = () => {
     const op = opStack.pop()!;
     const right: Expr = exprStack.pop()!;
-    const left: Expr = exprStack.pop()!;
     const application: Expr =
       matchExhaustive(op, {
-        ExprOp: expr => app(app(expr, left), right),
-        InfixOp: name => app(app(Name(name), left), right),
+        ExprOp: expr => app(app(expr, exprStack.pop()!), right),
+        InfixOp: name => app(app(withSpan(Name(name), op.span), exprStack.pop()!), right),
+        PrefixOp: name => app(withSpan(Name(options.prefixOperators[name].fn), op.span), right),
       });
     exprStack.push(application);
   }
@@ -58,6 +90,9 @@ export const shuntingYard = (
   for (const item of opsToStream(ops))
     if ('app' in item) {
       exprStack.push(item.app)
+    } else if ('prefix' in item) {
+      // There's nothing on the left of a prefix operator to reduce
+      opStack.push(item.prefix);
     } else {
       if (opStack.length === 0) {
         opStack.push(item.op)
@@ -67,6 +102,12 @@ export const shuntingYard = (
             break;
           const myPrio = prio(item.op);
           const topPrio = prio(opStack.slice(-1)[0])
+          if (
+            myPrio.strength === topPrio.strength
+            && opStack.slice(-1)[0].tag !== 'PrefixOp'
+            && (myPrio.direction === 'none' || topPrio.direction === 'none')
+          )
+            return Err(chainingError(item.op, opStack.slice(-1)[0], options));
           if (!(
             (myPrio.strength < topPrio.strength)
             || (myPrio.strength === topPrio.strength && myPrio.direction === 'left')
@@ -85,5 +126,5 @@ export const shuntingYard = (
   if (exprStack.length !== 1)
     throw new Error('This should never happen');
 
-  return exprStack[0];
+  return Ok(exprStack[0]);
 };
@@ -0,0 +1,98 @@
+/**
+ * This module is responsible for turning string literals from the
+ * source code into actual strings, and back.
+ *
+ * The supported escape sequences are:
+ *
+ *   \n       newline
+ *   \t       tab
+ *   \\       backslash
+ *   \'       single quote
+ *   \"       double quote
+ *   \{ \}    literal braces, which otherwise delimit interpolated
+ *            expressions in double-quoted strings. Only code needs
+ *            them, so printed strings keep their braces as they are.
+ *   \u{...}  a Unicode code point, given as 1 to 6 hex digits
+ */
+
+import { Either, Err, Ok } from '../either';
+
+
+export type StringError = {msg: string, offset: number};
+
+
+const simpleEscapes: Record<string, string> = {
+  'n': '\n',
+  't': '\t',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '{': '{',
+  '}': '}',
+};
+
+
+/**
+ * Decode a string literal, including its surrounding quotes.
+ * In case of an error, `offset` points at the offending backslash.
+ */
+export const decodeString = (literal: string): Either<StringError, string> => {
+  const body = literal.slice(1, -1);
+  let rv = '';
+  let i = 0;
+  while (i < body.length) {
+    const backslash = body.indexOf('\\', i);
+    if (backslash === -1) {
+      rv += body.slice(i);
+      break;
+    }
+    rv += body.slice(i, backslash);
+
+    const offset = backslash + 1;
+    const escape = body[backslash + 1];
+    if (escape in simpleEscapes) {
+      rv += simpleEscapes[escape];
+      i = backslash + 2;
+    } else if (escape === 'u') {
+      const m = /^\{([0-9a-fA-F]{1,6})\}/.exec(body.slice(backslash + 2));
+      if (m === null)
+        return Err({msg: 'expected 1 to 6 hex digits in braces after `\\u`, like `\\u{1F600}`', offset});
+      const codePoint = parseInt(m[1], 16);
+      if (codePoint > 0x10FFFF)
+        return Err({msg: `\`\\u{${m[1]}}\` is not a valid code point`, offset});
+      rv += String.fromCodePoint(codePoint);
+      i = backslash + 2 + m[0].length;
+    } else {
+      return Err({msg: `unknown escape sequence \`\\${escape || ''}\``, offset});
+    }
+  }
+  return Ok(rv);
+};
+
+
+const _encodeChar = (c: string): string => {
+  switch (c) {
+    case '\n': return '\\n';
+    case '\t': return '\\t';
+    case '\\': return '\\\\';
+    case '"': return '\\"';
+    case '{': return '\\{';
+    case '}': return '\\}';
+    default: return `\\u{${c.codePointAt(0)!.toString(16)}}`;
+  }
+};
+
+
+/**
+ * Escape `s` so that it can be put between double quotes. In `code`, the
+ * braces are escaped too, so they aren't taken for interpolation.
+ */
+export const escapeString = (s: string, code: boolean = false): string =>
+  s.replace(code ? /[\n\t\\"{}]|[\x00-\x1f\x7f]/g : /[\n\t\\"]|[\x00-\x1f\x7f]/g, _encodeChar);
+
+
+/**
+ * Make a double-quoted string literal that `decodeString` turns back into `s`
+ */
+export const encodeString = (s: string, code: boolean = false): string =>
+  '"' + escapeString(s, code) + '"';
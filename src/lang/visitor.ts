@@ -0,0 +1,195 @@
+/**
+ * This module has the generic ways of going through a syntax tree, so that
+ * a pass over the code only has to handle the nodes it's interested in.
+ *
+ * A node is an expression, a parameter or a pattern, and its children are
+ * the nodes right inside of it, in the order they appear in the source code:
+ *
+ *   App         fun, arg
+ *   Lam         arg, expr
+ *   Match       subject, then the pattern, guard (if any) and body of each arm
+ *   Let         the value of each binding, body
+ *   ArgDefault  arg, default
+ *   PatLiteral  the literal
+ *
+ * and so on, see `./scopes`. Everything else is built on `children` and `withChildren`:
+ * `fold` computes a value bottom-up, `map` rewrites the tree, `walk` visits
+ * every node knowing which local names it can see, and a `Zipper` moves
+ * around the tree to change a single node.
+ *
+ * Rebuilt nodes keep their spans, and lambdas get their captured names
+ * recomputed. Nodes whose children stay the same aren't rebuilt.
+ */
+
+import { matchExhaustive } from '@practical-fp/union-types';
+import { Expr, lambda, LamArg, Pattern, TableEntry } from './ast';
+import { children, extend, isArg, isExpr, Node, scopedChildren } from './scopes';
+import { withSpan } from '../language';
+
+export { bindersOf, Child, children, freeNames, isArg, isExpr, isPattern, Node, scopedChildren } from './scopes';
+
+
+const kindOf = (node: Node): string =>
+  isExpr(node) ? 'an expression' : isArg(node) ? 'a parameter' : 'a pattern';
+
+// Passes can only replace a node with one of the same kind
+const sameKind = <N extends Node>(original: N, replacement: Node): N => {
+  if (kindOf(original) !== kindOf(replacement))
+    throw new Error(`Expected ${kindOf(original)} to replace ${original.tag}, got ${replacement.tag}`);
+  return replacement as N;
+};
+
+
+/// Rebuilding
+
+
+/**
+ * Build `node` again with other children, which are given in the same order
+ * as `children(node)` returns them.
+ */
+export const withChildren = <N extends Node>(node: N, replacements: readonly Node[]): N => {
+  const original = children(node);
+  if (replacements.length !== original.length)
+    throw new Error(`${node.tag} has ${original.length} children, got ${replacements.length}`);
+  if (replacements.every((replacement, i) => replacement === original[i]))
+    return node;
+  replacements.forEach((replacement, i) => sameKind(original[i], replacement));
+
+  let next = 0;
+  const expr = () => replacements[next++] as Expr;
+  const arg = () => replacements[next++] as LamArg;
+  const pattern = () => replacements[next++] as Pattern;
+  const maybeArg = (rest: LamArg | null) => rest === null ? null : arg();
+
+  // Object literals are evaluated from left to right, so children are taken in order
+  const value: Node['value'] = matchExhaustive(node as Node, {
+    Name: name => name,
+    Dec: dec => dec,
+    Str: str => str,
+    Symbol: symbol => symbol,
+    App: () => ({fun: expr(), arg: expr()}),
+    Template: ({strings, exprs}) => ({strings, exprs: exprs.map(() => expr())}),
+    Table: entries => entries.map(([key]): TableEntry => [key, expr()]),
+    List: items => items.map(item => ({...item, expr: expr()})),
+    Cond: () => ({if: expr(), then: expr(), else: expr()}),
+    Lam: () => lambda(arg(), expr()),
+    Match: ({arms}) => ({
+      subject: expr(),
+      arms: arms.map(({guard}) => ({pattern: pattern(), guard: guard === null ? null : expr(), body: expr()})),
+    }),
+    Let: ({bindings, rec}) => ({bindings: bindings.map(({name}) => ({name, value: expr()})), body: expr(), rec}),
+    Block: statements => statements.map(({name}) => ({name, expr: expr()})),
+    DefineMacro: ({name}) => ({name, expander: expr()}),
+    ArgSingle: name => name,
+    ArgTable: ({pairs, rest}) => ({pairs: pairs.map(([key]): [string, LamArg] => [key, arg()]), rest: maybeArg(rest)}),
+    ArgList: ({items, rest}) => ({items: items.map(() => arg()), rest: maybeArg(rest)}),
+    ArgDefault: () => ({arg: arg(), default: expr()}),
+    PatLiteral: () => expr(),
+    PatArg: () => arg(),
+  });
+  return withSpan({...node, value}, node.span);
+};
+
+
+/// Passes
+
+
+// Computes a value for every node from the values of its children
+export const fold = <A>(node: Node, f: (node: Node, results: A[]) => A): A =>
+  f(node, children(node).map(child => fold(child, f)));
+
+/**
+ * Replace every node with `f` of it, which also gets the local names visible
+ * at the node. Bottom-up, `f` gets nodes whose children have already been
+ * replaced. Top-down, `f` gets the original nodes, and the children of what
+ * it returns are replaced afterwards, so it shouldn't keep returning bigger
+ * nodes.
+ */
+export const map = <N extends Node>(
+  node: N,
+  f: (node: Node, bound: ReadonlySet<string>) => Node,
+  order: 'bottomUp' | 'topDown' = 'bottomUp',
+  bound: Iterable<string> = []
+): N => {
+  const go = <M extends Node>(n: M, visible: ReadonlySet<string>): M => {
+    const goInside = (m: M) =>
+      withChildren(m, scopedChildren(m).map(({node: child, binds}) => go(child, extend(visible, binds))));
+    return order === 'bottomUp'
+      ? sameKind(n, f(goInside(n), visible))
+      : goInside(sameKind(n, f(n, visible)));
+  };
+  return go(node, new Set(bound));
+};
+
+// Child indexes leading from the root to a node
+export type Path = number[];
+
+export type Context = {path: Path, bound: ReadonlySet<string>};
+
+/**
+ * Call `visit` on every node, parents before their children, with the local
+ * names that are visible there. When `visit` returns `false`, the children
+ * of the node are skipped.
+ */
+export const walk = (
+  node: Node,
+  visit: (node: Node, context: Context) => boolean | void,
+  bound: Iterable<string> = []
+): void => {
+  const go = (n: Node, path: Path, visible: ReadonlySet<string>) => {
+    if (visit(n, {path, bound: visible}) === false)
+      return;
+    scopedChildren(n).forEach(({node: child, binds}, i) =>
+      go(child, [...path, i], extend(visible, binds)));
+  };
+  go(node, [], new Set(bound));
+};
+
+
+/// Zipper
+
+
+// The parent of a node, and where the node is among its children
+type Crumb = {parent: Node, index: number};
+
+// A node in a tree, which can be changed without rebuilding the tree by hand.
+// The crumbs lead from the root to the focus.
+export type Zipper = {focus: Node, crumbs: Crumb[]};
+
+export const zip = (root: Node): Zipper => ({focus: root, crumbs: []});
+
+export const down = ({focus, crumbs}: Zipper, index: number = 0): Zipper | null => {
+  const child = children(focus)[index];
+  return child === undefined ? null : {focus: child, crumbs: [...crumbs, {parent: focus, index}]};
+};
+
+export const up = ({focus, crumbs}: Zipper): Zipper | null => {
+  if (crumbs.length === 0)
+    return null;
+  const {parent, index} = crumbs[crumbs.length - 1];
+  const siblings = children(parent);
+  siblings[index] = focus;
+  return {focus: withChildren(parent, siblings), crumbs: crumbs.slice(0, -1)};
+};
+
+// `sibling(z, 1)` is the next sibling of the focus, `sibling(z, -1)` the previous one
+export const sibling = (zipper: Zipper, offset: number): Zipper | null => {
+  const parent = up(zipper);
+  return parent === null ? null : down(parent, zipper.crumbs[zipper.crumbs.length - 1].index + offset);
+};
+
+export const replace = (zipper: Zipper, node: Node): Zipper =>
+  ({focus: sameKind(zipper.focus, node), crumbs: zipper.crumbs});
+
+export const pathOf = ({crumbs}: Zipper): Path => crumbs.map(({index}) => index);
+
+export const zipTo = (root: Node, path: Path): Zipper | null =>
+  path.reduce<Zipper | null>((zipper, index) => zipper && down(zipper, index), zip(root));
+
+// The whole tree, with the changes made at the focus
+export const unzip = (zipper: Zipper): Node => {
+  let current = zipper;
+  for (let parent = up(current); parent !== null; parent = up(current))
+    current = parent;
+  return current.focus;
+};
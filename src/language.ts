@@ -1,11 +1,58 @@
-import { Parser, Either, Ok, Err, parser } from './parser';
+import { Parser, Either, Ok, Err, parser, hintOf, withHint } from './parser';
 import { ParseError } from './either';
 
 
+/**
+ * A region of source code. `start` and `end` are character offsets
+ * (`end` is exclusive), `line` and `col` are 1-based and point at `start`.
+ */
+export type Span = Readonly<{
+  file: string;
+  start: number;
+  end: number;
+  line: number;
+  col: number;
+}>;
+
+
+/**
+ * Anything that may remember where it came from in the source code.
+ */
+export type Spanned = { readonly span?: Span };
+
+
+/**
+ * Set a property on a copy of `node`. The property is non-enumerable, so that
+ * nodes which only differ in such metadata are still deeply equal.
+ */
+export const withHidden = <A extends object>(node: A, key: string, value: unknown): A => {
+  const copy = Object.create(Object.getPrototypeOf(node), Object.getOwnPropertyDescriptors(node));
+  return Object.defineProperty(copy, key, {value, enumerable: false, configurable: true});
+};
+
+
+/**
+ * Attach a span to a copy of `node`
+ */
+export const withSpan = <A extends object>(node: A, span: Span | undefined): A =>
+  span === undefined ? node : withHidden(node, 'span', span);
+
+
+/**
+ * The smallest span that covers both `from` and `to`
+ */
+export const joinSpans = (from: Span | undefined, to: Span | undefined): Span | undefined => {
+  if (from === undefined || to === undefined)
+    return from || to;
+  return {...from, end: Math.max(from.end, to.end)};
+};
+
+
 export type Token<T extends string> = Readonly<{
   type: T;
   position: number;
   content: string;
+  span?: Span;
 }>;
 
 
@@ -15,20 +62,50 @@ export type TokenStream<T extends string> = readonly Token<T>[];
 export type TokenParser<T extends string, A> = Parser<TokenStream<T>, A>;
 
 
-export const EOI: ParseError = {recoverable: true, msg: 'Unexpected end of input'};
+export const EOI: ParseError = {recoverable: true, msg: 'Unexpected end of input', remaining: 0};
 
 
 export class Lang<T extends string>{
+  // Used in error messages to tell the user what kind of token we expected
+  private describe: (t: T) => string;
+
+  constructor(describe: (t: T) => string = t => t) {
+    this.describe = describe;
+  }
+
   oneOf(...allowed: T[]): TokenParser<T, Token<T>> {
+    const expected = allowed.map(this.describe);
     return parser(
       src =>
         src.length === 0
-        ? Err(EOI)
+        ? Err({...EOI, expected})
         : allowed.some(t => t === src[0].type)
           ? Ok([src[0], src.slice(1)])
           : Err({
             recoverable: true,
             msg: `Expected ${allowed.join('|')}, got ${src[0].type}`,
+            remaining: src.length,
+            expected,
+          })
+    );
+  }
+
+  /**
+   * Like `oneOf(t)`, but only accepts a token with exactly this content
+   */
+  exact(t: T, content: string): TokenParser<T, Token<T>> {
+    const expected = ['`' + content + '`'];
+    return parser(
+      src =>
+        src.length === 0
+        ? Err({...EOI, expected})
+        : src[0].type === t && src[0].content === content
+          ? Ok([src[0], src.slice(1)])
+          : Err({
+            recoverable: true,
+            msg: `Expected ${content}, got ${src[0].content}`,
+            remaining: src.length,
+            expected,
           })
     );
   }
@@ -36,4 +113,52 @@ export class Lang<T extends string>{
   reading<A>(t: T, read: (content: string) => A): TokenParser<T, A> {
     return this.oneOf(t).map(({content}) => read(content));
   }
+
+  /**
+   * If `p` fails without consuming anything, say that we expected `what`
+   * instead of listing every token `p` could've started with
+   */
+  label<A>(what: string, p: TokenParser<T, A>): TokenParser<T, A> {
+    const relabel = (src: TokenStream<T>, e: ParseError): ParseError =>
+      e.remaining === src.length ? {...e, expected: [what]} : e;
+
+    return parser(src => {
+      const ea = p.parse(src);
+      if ('err' in ea)
+        return Err(relabel(src, ea.err));
+      const hint = hintOf(ea);
+      return withHint(ea, hint && relabel(src, hint));
+    });
+  }
+
+  /**
+   * If `p` fails, pretend that it failed right away. This is useful for
+   * speculative parsers, whose partial progress would only be confusing
+   * in an error message.
+   */
+  attempt<A>(p: TokenParser<T, A>): TokenParser<T, A> {
+    return parser(src => {
+      const ea = p.parse(src);
+      if ('ok' in ea || !ea.err.recoverable)
+        return ea;
+      return Err({...ea.err, remaining: src.length, expected: []});
+    });
+  }
+
+  /**
+   * Attach the span of all the tokens consumed by `p` to its result
+   */
+  spanned<A extends object>(p: TokenParser<T, A>): TokenParser<T, A> {
+    return parser(src => {
+      const ea = p.parse(src);
+      if ('err' in ea)
+        return ea;
+      const [a, rest] = ea.ok;
+      const consumed = src.length - rest.length;
+      if (consumed === 0)
+        return ea;
+      const span = joinSpans(src[0].span, src[consumed - 1].span);
+      return withHint(Ok([withSpan(a, span), rest]), hintOf(ea));
+    });
+  }
 }
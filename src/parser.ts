@@ -5,6 +5,36 @@ export {Either, Ok, Err, Ei}
 export type ParserF<S, A> = (src: S) => Either<ParseError, readonly [A, S]>;
 
 
+/**
+ * Combine two errors that happened while parsing the same input, keeping
+ * the one that got further. If both failed at the same point, the things
+ * they expected to see are merged. Recoverability is taken from `error`.
+ */
+export const mergeErrors = (hint: ParseError | undefined, error: ParseError): ParseError => {
+  if (hint === undefined || hint.remaining === undefined)
+    return error;
+  if (error.remaining === undefined || hint.remaining < error.remaining)
+    return {...hint, recoverable: error.recoverable};
+  if (hint.remaining > error.remaining)
+    return error;
+  return {...error, expected: [...new Set([...hint.expected || [], ...error.expected || []])]};
+};
+
+
+/**
+ * A successful result can carry a "hint": the furthest error that was
+ * recovered from while producing it (for example, where `many` stopped).
+ * If the parsing fails right after that, the hint is merged into the error.
+ */
+export const hintOf = <E, A>(result: Either<E, A>): ParseError | undefined =>
+  (result as {hint?: ParseError}).hint;
+
+export const withHint = <E, A>(result: Either<E, A>, hint: ParseError | undefined): Either<E, A> =>
+  hint === undefined
+  ? result
+  : Object.defineProperty({...result}, 'hint', {value: hint, enumerable: false});
+
+
 export class Parser<S, A> {
   readonly parse : ParserF<S, A>;
 
@@ -21,7 +51,7 @@ export class Parser<S, A> {
       if ('err' in ea)
         return Err(ea.err);
       const [a, rest] = ea.ok;
-      return Ok([f(a), rest]);
+      return withHint(Ok([f(a), rest]), hintOf(ea));
     });
   }
 
@@ -36,7 +66,11 @@ export class Parser<S, A> {
         return Err(ea.err);
       const [a, rest] = ea.ok;
       const pb = f(a);
-      return pb.parse(rest);
+      const eb = pb.parse(rest);
+      if ('err' in eb)
+        return Err(mergeErrors(hintOf(ea), eb.err));
+      const hint = hintOf(ea);
+      return withHint(eb, hint === undefined ? hintOf(eb) : mergeErrors(hint, hintOf(eb) || hint));
     });
   }
 
@@ -58,7 +92,12 @@ export class Parser<S, A> {
    * If this parser fails to match, produce an unrecoverable error
    */
   orBail(msg: string): Parser<S, A> {
-    return this.or( parser(_ => ({err: {recoverable: false, msg}})) );
+    return parser(src => {
+      const ea = this.parse(src);
+      if ('ok' in ea || !ea.err.recoverable)
+        return ea;
+      return Err({...ea.err, recoverable: false, msg});
+    });
   }
 
   /**
@@ -71,7 +110,7 @@ export class Parser<S, A> {
       if ('err' in ea)
         return ea;
       const [a, _rest] = ea.ok;
-      return Ok([a, src]);
+      return withHint(Ok([a, src]), hintOf(ea));
     });
   }
 
@@ -89,7 +128,9 @@ export class Parser<S, A> {
       if (!ea.err.recoverable)
         return ea;
       const eb = other.parse(src);
-      return eb
+      if ('err' in eb)
+        return Err(mergeErrors(ea.err, eb.err));
+      return withHint(eb, mergeErrors(ea.err, hintOf(eb) || ea.err));
     })
   }
 
@@ -1,4 +1,5 @@
-import { Interpreter, IOHandle, LangError } from '../src/lang/interpreter';
+import { Either } from '../src/either';
+import { Backend, Interpreter, IOHandle, LangError } from '../src/lang/interpreter';
 import * as rt from '../src/lang/runtime';
 import { assert } from 'chai';
 import { inspect } from 'util';
@@ -12,22 +13,62 @@ export const pureIOHandle: IOHandle = {
 };
 
 
+// The items of the list that `result` should be
+export const listItems = <E>(result: Either<E, rt.Value>): rt.Value[] => {
+  if (!('ok' in result) || !rt.List.is(result.ok))
+    return assert.fail(`Expected a list, got: ${inspect(result, {depth: null})}`);
+  return result.ok.value.toArray();
+};
+
+// The error that `result` should be
+export const errorOf = <E>(result: Either<E, unknown>): E => {
+  if (!('err' in result))
+    return assert.fail(`Expected an error, got: ${inspect(result, {depth: null})}`);
+  return result.err;
+};
+
+export const runtimeErrorOf = (result: Either<LangError, unknown>): rt.RuntimeError => {
+  const error = errorOf(result);
+  if (error.type !== 'runtimeError')
+    return assert.fail(`Expected a runtime error, got: ${inspect(error, {depth: null})}`);
+  return error.err;
+};
+
+
+type Mode = {optimizing: boolean, backend: Backend};
+
+const makeInterpreter = (ioHandle: IOHandle, {optimizing, backend}: Mode): Interpreter => {
+  const interpreter = new Interpreter(ioHandle);
+  interpreter.optimizing = optimizing;
+  interpreter.backend = backend;
+  return interpreter;
+};
+
+// Neither the optimizer nor the backend should change what any of the tests do
+const BACKENDS: Backend[] = ['tree', 'closures', 'bytecode'];
+const MODES: Mode[] = [false, true].flatMap(optimizing => BACKENDS.map(backend => ({optimizing, backend})));
+const describeMode = ({optimizing, backend}: Mode) => `${optimizing ? 'optimized' : 'not optimized'}, ${backend}`;
+
+
 export const testPure = (
   description: string,
   input: string,
   output: string | {ok: rt.Value} | {error: LangError['type']}
 ) => {
     it(description, () => {
-      const actual = new Interpreter(pureIOHandle).runLine(input);
-
-      if (typeof output === 'string') {
-        const expected = new Interpreter(pureIOHandle).runLine(output);
-        assert.deepEqual(expected, actual)
-      } else if ('ok' in output) {
-        assert.deepEqual({ok: output.ok}, actual);
-      } else {
-        assert.property(actual, 'err');
-        assert.deepEqual((actual as any).err.type, output.error);
+      for (const mode of MODES) {
+        const actual = makeInterpreter(pureIOHandle, mode).runLine(input);
+        const modeName = describeMode(mode);
+
+        if (typeof output === 'string') {
+          const expected = makeInterpreter(pureIOHandle, mode).runLine(output);
+          assert.deepEqual(expected, actual, modeName);
+        } else if ('ok' in output) {
+          assert.deepEqual({ok: output.ok}, actual, modeName);
+        } else {
+          assert.property(actual, 'err', modeName);
+          assert.deepEqual(errorOf(actual).type, output.error, modeName);
+        }
       }
     })
   };
@@ -39,28 +80,28 @@ export const testIO = (
   stdin: readonly string[],
   expectedStdout: readonly string[],
 ) => {
-  let lineIndex = 0;
-  const actualStdout: string[] = [];
-
-  const handle: IOHandle = {
-    readLine: () => {
-      if (lineIndex >= stdin.length)
-        throw new Error('End of input');
-      const line = stdin[lineIndex];
-      lineIndex++;
-      return line;
-    },
-    writeLine: line => actualStdout.push(line),
-    exit: () => {},
-    resolveModule: () => null,
-  };
+  const run = (mode: Mode) => {
+    let lineIndex = 0;
+    const actualStdout: string[] = [];
 
+    const handle: IOHandle = {
+      readLine: () => {
+        if (lineIndex >= stdin.length)
+          throw new Error('End of input');
+        const line = stdin[lineIndex];
+        lineIndex++;
+        return line;
+      },
+      writeLine: line => actualStdout.push(line),
+      exit: () => {},
+      resolveModule: () => null,
+    };
 
-  it(description, () => {
-    const i = new Interpreter(handle);
-    const rv = i.runMultiline(code);
+    const rv = makeInterpreter(handle, mode).runMultiline(code);
     if (!('ok' in rv))
       assert.fail(`Expected success, got: ${inspect(rv, {depth:null})}`);
-    assert.deepEqual(actualStdout, expectedStdout);
-  })
+    assert.deepEqual(actualStdout, expectedStdout, describeMode(mode));
+  };
+
+  it(description, () => MODES.forEach(run))
 };
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { assert } from 'chai';
+import { Backend, Interpreter } from '../src/lang/interpreter';
+import * as rt from '../src/lang/runtime';
+import { listItems, pureIOHandle, runtimeErrorOf } from './_helpers';
+
+
+const running = (backend: Backend = 'bytecode', file: string | null = null) => {
+  const i = new Interpreter(pureIOHandle, null, null, null, file);
+  i.backend = backend;
+  return i;
+};
+
+
+describe('The bytecode machine runs statements like the interpreter', () => {
+  it('keeping the calls on the heap', () => {
+    const i = running();
+    const result = i.runMultilineReturnLast(':count .= (n. if n = 0 then 0 else 1 + count (n - 1)); count 10000');
+    assert.deepNestedPropertyVal(result, 'ok', rt.Unit(10000));
+  });
+
+  it('with the same tail calls and recursion limit', () => {
+    const i = running();
+    i.recursionLimit = 10;
+    i.runMultiline(':count .= (n. if n = 0 then 0 else 1 + count (n - 1))');
+    i.runMultiline(':loop .= (n acc. match n with | 0 -> acc | _ -> let next = n - 1 in loop next (acc + 1))');
+    assert.deepNestedPropertyVal(i.runLine('loop 1000 0'), 'ok', rt.Unit(1000));
+    assert.deepNestedPropertyVal(i.runLine('count 20'), 'err.err', rt.StackOverflow(10));
+    assert.deepNestedPropertyVal(i.runLine('count 5'), 'ok', rt.Unit(5));
+  });
+
+  it('with the same errors and stack traces', () => {
+    const source = ':f .= (x y. x + y);\n:t .= (n. if n = 0 then f 1 "a" else t (n - 1));\nt 20';
+    const [tree, bytecode] = (['tree', 'bytecode'] as Backend[]).map(backend => {
+      const result = running(backend, 'script').runMultiline(source);
+      const err = runtimeErrorOf(result);
+      return {err, span: err.span, trace: err.trace};
+    });
+    assert.deepEqual(bytecode, tree);
+    assert.lengthOf(bytecode.trace ?? [], 2 + rt.MAX_TAIL_CALLS);
+  });
+
+  it('calling functions made by the other backends', () => {
+    const i = running('closures');
+    i.runMultiline(':add .= (x y. x + y)');
+    i.backend = 'bytecode';
+    i.runMultiline(':twice .= (f x. f (f x))');
+    i.backend = 'tree';
+    assert.deepNestedPropertyVal(i.runLine('twice (add 2) 1'), 'ok', rt.Unit(5));
+    i.backend = 'bytecode';
+    assert.deepNestedPropertyVal(i.runLine('List:fold add 0 [1, 2, 3]'), 'ok', rt.Unit(6));
+  });
+
+  it('running functions called by natives on the machine', () => {
+    const i = running();
+    const result = i.runMultilineReturnLast(
+      ':n .= 0; Imp:while (_. n < 3) (_. do {:next = n + 1; :n .= next}); List:map (x. x * n) [1, 2]'
+    );
+    assert.deepEqual(listItems(result), [rt.Unit(3), rt.Unit(6)]);
+  });
+
+  it('letting natives break out of the functions they call', () => {
+    const i = running();
+    const result = i.runMultilineReturnLast(
+      ':n .= 0; :odd .= 0;'
+      + 'Imp:while (_. true) ({break, continue}. do {'
+      + '  :next = n + 1; :n .= next;'
+      + '  :stop = (if n > 5 then break {} else 0);'
+      + '  :skip = (if n = 2 || n = 4 then continue {} else 0);'
+      + '  :more = odd + 1; :odd .= more'
+      + '});'
+      + '[n, odd]'
+    );
+    assert.deepEqual(listItems(result), [rt.Unit(6), rt.Unit(3)]);
+  });
+
+  it('unless && and || are shadowed', () => {
+    const i = running();
+    assert.deepNestedPropertyVal(i.runLine('false && (1 / 0 = 1)'), 'ok', rt.Bool(false));
+    assert.deepNestedPropertyVal(i.runLine('do {:&& = (a b. b); false && 1}'), 'ok', rt.Unit(1));
+  });
+});
@@ -0,0 +1,91 @@
+import { assert } from 'chai';
+import { Interpreter } from '../src/lang/interpreter';
+import * as rt from '../src/lang/runtime';
+import { listItems, pureIOHandle } from './_helpers';
+
+
+const compiling = (file: string | null = null) => {
+  const i = new Interpreter(pureIOHandle, null, null, null, file);
+  i.backend = 'closures';
+  return i;
+};
+
+
+describe('The closure compiler runs statements like the interpreter', () => {
+  it('resolving local names ahead of time', () => {
+    const i = compiling();
+    const result = i.runMultilineReturnLast(':x .= 1; :f .= (x. y. let z = x + y in [x, y, z]); f 2 3');
+    assert.deepEqual(listItems(result), [rt.Unit(2), rt.Unit(3), rt.Unit(5)]);
+  });
+
+  it('falling back to outer names that recursive bindings have yet to bind', () => {
+    const i = compiling();
+    const result = i.runMultilineReturnLast(':x .= 1; let rec a = x, x = 2 in [a, x]');
+    assert.deepEqual(listItems(result), [rt.Unit(1), rt.Unit(2)]);
+  });
+
+  it('seeing names bound at the top level after the code was compiled', () => {
+    const i = compiling();
+    const result = i.runMultilineReturnLast(':f .= (x. x + later); :later .= 10; f 1');
+    assert.deepNestedPropertyVal(result, 'ok', rt.Unit(11));
+  });
+
+  it('calling functions made by the other backend', () => {
+    const i = new Interpreter(pureIOHandle);
+    i.runMultiline(':add .= (x y. x + y)');
+    i.backend = 'closures';
+    i.runMultiline(':twice .= (f x. f (f x))');
+    i.backend = 'tree';
+    assert.deepNestedPropertyVal(i.runLine('twice (add 2) 1'), 'ok', rt.Unit(5));
+    i.backend = 'closures';
+    assert.deepNestedPropertyVal(i.runLine('List:fold add 0 [1, 2, 3]'), 'ok', rt.Unit(6));
+  });
+
+  it('with the same stack traces', () => {
+    const i = compiling('script');
+    const result = i.runMultiline(':f .= (x y. x + y);\n:g .= (x. f x "a");\ng 1');
+    assert.deepNestedPropertyVal(result, 'err.err.span', {file: 'script', start: 12, end: 17, line: 1, col: 13});
+    assert.deepNestedPropertyVal(result, 'err.err.trace', [
+      {name: '(1 +)', span: {file: 'script', start: 12, end: 17, line: 1, col: 13}},
+      {name: 'f', span: {file: 'script', start: 30, end: 37, line: 2, col: 11}},
+      {name: 'g', span: {file: 'script', start: 40, end: 43, line: 3, col: 1}},
+    ]);
+  });
+
+  it('with the same tail calls and recursion limit', () => {
+    const i = compiling();
+    i.recursionLimit = 10;
+    i.runMultiline(':count .= (n. if n = 0 then 0 else 1 + count (n - 1))');
+    i.runMultiline(':loop .= (n acc. if n = 0 then acc else do {:next = n - 1; loop next (acc + 1)})');
+    assert.deepNestedPropertyVal(i.runLine('loop 1000 0'), 'ok', rt.Unit(1000));
+    assert.deepNestedPropertyVal(i.runLine('count 20'), 'err.err.tag', 'StackOverflow');
+    assert.deepNestedPropertyVal(i.runLine('count 5'), 'ok', rt.Unit(5));
+  });
+
+  it('keeping the calls on the heap', () => {
+    const i = compiling();
+    const result = i.runMultilineReturnLast(':count .= (n. if n = 0 then 0 else 1 + count (n - 1)); count 10000');
+    assert.deepNestedPropertyVal(result, 'ok', rt.Unit(10000));
+  });
+
+  it('stopping at the recursion limit instead of the JavaScript stack', () => {
+    const i = compiling();
+    const result = i.runMultiline(':count .= (n. if n = 0 then 0 else 1 + count (n - 1)); count 1000000');
+    assert.deepNestedPropertyVal(result, 'err.err.tag', 'StackOverflow');
+    assert.deepNestedPropertyVal(result, 'err.err.value', rt.DEFAULT_RECURSION_LIMIT);
+  });
+
+  it('running functions called by natives compiled', () => {
+    const i = compiling();
+    const result = i.runMultilineReturnLast(
+      ':n .= 0; Imp:while (_. n < 3) (_. do {:next = n + 1; :n .= next}); List:map (x. x * n) [1, 2]'
+    );
+    assert.deepEqual(listItems(result), [rt.Unit(3), rt.Unit(6)]);
+  });
+
+  it('unless && and || are shadowed', () => {
+    const i = compiling();
+    assert.deepNestedPropertyVal(i.runLine('false && (1 / 0 = 1)'), 'ok', rt.Bool(false));
+    assert.deepNestedPropertyVal(i.runLine('do {:&& = (a b. b); false && 1}'), 'ok', rt.Unit(1));
+  });
+});
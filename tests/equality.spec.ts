@@ -0,0 +1,96 @@
+import { assert } from 'chai';
+import { List as ImmutableList, Map } from 'immutable';
+import Fraction from 'fraction.js';
+import * as rt from '../src/lang/runtime';
+import * as ast from '../src/lang/ast';
+import { compareValues, hashValue, valuesEqual } from '../src/lang/equality';
+
+
+const list = (...items: rt.Value[]) => rt.List(ImmutableList(items));
+const table = (...entries: [string, rt.Value][]) => rt.Table(Map(entries));
+const identity = ast.makeLambda(ast.ArgSingle('x'), ast.Name('x')).value as ast.Lambda;
+const emptyEnv: rt.Env = {parent: null, names: Map()};
+
+
+describe('Values can be compared structurally', () => {
+  describe('valuesEqual', () => {
+    it('compares numbers by value', () => {
+      assert.isTrue(valuesEqual(rt.Unit(1), rt.Unit(1.0)));
+      assert.isFalse(valuesEqual(rt.Unit(1), rt.Unit(2)));
+    });
+
+    it('compares the dimensions of units', () => {
+      assert.isFalse(valuesEqual(rt.Unit(1, {L: new Fraction(1)}), rt.Unit(1)));
+    });
+
+    it("doesn't consider values of different types equal", () => {
+      assert.isFalse(valuesEqual(rt.Str('a'), rt.Symbol('a')));
+    });
+
+    it('compares tables regardless of the order of their keys', () => {
+      assert.isTrue(valuesEqual(
+        table(['a', rt.Unit(1)], ['b', rt.Str('x')]),
+        table(['b', rt.Str('x')], ['a', rt.Unit(1)]),
+      ));
+      assert.isFalse(valuesEqual(table(['a', rt.Unit(1)]), table(['b', rt.Unit(1)])));
+    });
+
+    it('compares lists item by item', () => {
+      assert.isTrue(valuesEqual(list(rt.Unit(1), list()), list(rt.Unit(1), list())));
+      assert.isFalse(valuesEqual(list(rt.Unit(1)), list(rt.Unit(1), rt.Unit(1))));
+    });
+
+    it('compares functions by their code and closure', () => {
+      const f = rt.Fun({fun: identity, closure: emptyEnv});
+      assert.isTrue(valuesEqual(f, rt.nameFunction(f, 'id')));
+      assert.isFalse(valuesEqual(f, rt.Fun({fun: identity, closure: {parent: null, names: Map()}})));
+    });
+  });
+
+  describe('compareValues', () => {
+    it('orders values of different types by their type', () => {
+      const values = [
+        rt.NativeOk('f', v => v), table(), list(), rt.Symbol('a'), rt.Str('a'), rt.Unit(0), rt.Bool(true),
+      ];
+      const sorted = [...values].sort(compareValues);
+      assert.deepEqual(sorted.map(v => v.tag), ['Bool', 'Unit', 'Str', 'Symbol', 'List', 'Table', 'Native']);
+    });
+
+    it('orders lists lexicographically', () => {
+      assert.equal(compareValues(list(rt.Unit(1), rt.Unit(2)), list(rt.Unit(1), rt.Unit(3))), -1);
+      assert.equal(compareValues(list(rt.Unit(1)), list(rt.Unit(1), rt.Unit(0))), -1);
+      assert.equal(compareValues(list(rt.Unit(2)), list(rt.Unit(1), rt.Unit(0))), 1);
+    });
+
+    it('orders tables by their sorted entries', () => {
+      assert.equal(compareValues(table(['a', rt.Unit(1)]), table(['b', rt.Unit(0)])), -1);
+      assert.equal(compareValues(table(['a', rt.Unit(2)]), table(['a', rt.Unit(1)])), 1);
+    });
+
+    it('is antisymmetric', () => {
+      const a = rt.Fun({fun: identity, closure: emptyEnv});
+      const b = rt.Fun({fun: identity, closure: {parent: null, names: Map()}});
+      assert.equal(compareValues(a, b), -compareValues(b, a));
+      assert.notEqual(compareValues(a, b), 0);
+    });
+  });
+
+  describe('hashValue', () => {
+    it('gives equal values the same hash', () => {
+      assert.equal(
+        hashValue(table(['a', list(rt.Unit(1))], ['b', rt.Str('x')])),
+        hashValue(table(['b', rt.Str('x')], ['a', list(rt.Unit(1.0))])),
+      );
+      assert.equal(hashValue(rt.Unit(0)), hashValue(rt.Unit(-0)));
+    });
+
+    it('tells apart values that differ only in their type', () => {
+      assert.notEqual(hashValue(rt.Str('a')), hashValue(rt.Symbol('a')));
+    });
+
+    it('is an unsigned 32-bit integer', () => {
+      const h = hashValue(rt.Str('a long string to make sure that the hash wraps around'));
+      assert.isTrue(Number.isInteger(h) && h >= 0 && h < 2 ** 32);
+    });
+  });
+});
@@ -29,6 +29,19 @@ describe('Language features', () => {
     describe('Unit', () => {
       testPure('can be created with decimal literals', '3.14', { ok: rt.Unit(Big('3.14')) });
       testPure("are using decimal arithmetic, i.e. aren't floats", '0.1 + 0.2', '0.3');
+      describe('Negative numbers', () => {
+        testPure('are written with a prefix minus', '-3', '0 - 3');
+        testPure('are subtracted when the minus follows a value', '(x. x -1) 5', '4');
+        testPure('are negated after raising to a power', '-2 ^ 2', '0 - 4');
+        testPure('can negate any expression', '-(meters 2 + meters 1)', 'meters 0 - meters 3');
+        testPure('can follow an infix operator', '2 * -3', '0 - 6');
+        testPure("don't have a negative zero", '"{-0}"', '"0"');
+        testPure(
+          'can be negated with the `negate` function',
+          'List:map negate [1, -2] = [0 - 1, 2]',
+          { ok: rt.Bool(true) }
+        );
+      });
       describe('Have dimensions', () => {
         testPure(
           'can be assigned a dimension using a converter function',
@@ -66,6 +79,30 @@ describe('Language features', () => {
 
     describe('Strings', () => {
       testPure('can be created with string literals', '"foo"', { ok: rt.Str('foo') });
+      testPure(
+        'support escape sequences',
+        `'\\n\\t\\\\\\'\\"'`,
+        { ok: rt.Str('\n\t\\\'"') }
+      );
+      testPure('support Unicode escapes', '"\\u{1F600}\\u{41}"', { ok: rt.Str('\u{1F600}A') });
+      testPure("don't support JavaScript-only escapes", '"\\x41"', { error: 'lexError' });
+      testPure(
+        'can have expressions interpolated into them',
+        '({user, count}. "Hello, {user:name}! You have {count} items") {user: {name: "Alice"}, count: 3}',
+        { ok: rt.Str('Hello, Alice! You have 3 items') }
+      );
+      testPure(
+        'pretty-print interpolated values that are not strings',
+        '"{:sym} {{a: 1}} {"nested {1 + 1}"}"',
+        { ok: rt.Str(':sym {a: 1} nested 2') }
+      );
+      testPure('can escape braces', `"\\{1 + 1\\}" ++ '{}'`, { ok: rt.Str('{1 + 1}{}') });
+      testPure(
+        'are printed back as valid literals',
+        'Str:from "tab\\there\\u{7}"',
+        { ok: rt.Str('"tab\\there\\u{7}"') }
+      );
+      testPure('are printed with their braces as they are', 'Str:from {a: "\\{x\\}"}', { ok: rt.Str('{a: "{x}"}') });
     });
 
     describe('Symbols', () => {
@@ -85,6 +122,53 @@ describe('Language features', () => {
         '{+: 1, >>=: 2}',
         { ok: rt.Table(Map([['+', rt.Unit(1)], ['>>=', rt.Unit(2)]])) }
       );
+      testPure(
+        'can spread other tables into a literal',
+        '{..{x: 1}, y: 2}',
+        '{x: 1, y: 2}'
+      );
+      testPure(
+        'let later entries override spread ones',
+        '{..{x: 1, y: 2}, y: 3}',
+        '{x: 1, y: 3}'
+      );
+      testPure(
+        'can merge several tables',
+        '(a. b. {..a, ..b}) {x: 1, y: 2} {y: 3}',
+        '{x: 1, y: 3}'
+      );
+      testPure(
+        'can only spread tables',
+        '{..1}',
+        { error: 'runtimeError' }
+      );
+    });
+
+    describe('Lists', () => {
+      // Immutable lists with the same items can be built differently
+      // inside, so they're compared with `~=` instead of `deepEqual`
+      testPure(
+        'can be created from list literals',
+        'Str:from [1, "two", :three]',
+        { ok: rt.Str('[1, "two", :three]') }
+      );
+      testPure('can be empty', 'Str:from []', { ok: rt.Str('[]') });
+      testPure('can have a trailing comma', '[1, 2,] ~= [1, 2]', { ok: rt.Bool(true) });
+      testPure(
+        'can have other lists spread into them',
+        '[0, ..[1, 2], 3, ..[]] ~= [0, 1, 2, 3]',
+        { ok: rt.Bool(true) }
+      );
+      testPure("can't spread something that isn't a list", '[1, ..2]', { error: 'runtimeError' });
+      testPure('are compared item by item', '[1, [2]] ~= [1, [3]]', { ok: rt.Bool(false) });
+      testPure(
+        'can be destructured in function parameters',
+        '([a, {b}, [c]]. a + b + c) [1, {b: 2}, [3]]',
+        { ok: rt.Unit(6) }
+      );
+      testPure('can have their tail destructured', '([x, ..xs]. xs) [1, 2, 3] ~= [2, 3]', { ok: rt.Bool(true) });
+      testPure('must have the right length to be destructured', '([x, y]. x) [1, 2, 3]', { error: 'runtimeError' });
+      testPure('must have enough items to destructure the tail', '([x, y, ..z]. x) [1]', { error: 'runtimeError' });
     });
 
     describe('Function', () => {
@@ -123,6 +207,30 @@ describe('Language features', () => {
           assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['a', 'b', 'c']);
         });
 
+        it('within match expressions, except for the names bound by patterns', () => {
+          const actual = new Interpreter(pureIOHandle).runLine('x. match x with | {a} if a > b -> c | d -> d');
+          assert.deepNestedPropertyVal(actual, 'ok.tag', 'Fun');
+          assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['>', 'b', 'c']);
+        });
+
+        it('within let expressions, except for the names they bind', () => {
+          const actual = new Interpreter(pureIOHandle).runLine('x. let y = x + a, z = y in z b');
+          assert.deepNestedPropertyVal(actual, 'ok.tag', 'Fun');
+          assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['+', 'a', 'b']);
+        });
+
+        it('within let rec expressions, where every binding sees all the names', () => {
+          const actual = new Interpreter(pureIOHandle).runLine('x. let rec f = g, g = f in f h');
+          assert.deepNestedPropertyVal(actual, 'ok.tag', 'Fun');
+          assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['h']);
+        });
+
+        it('within blocks, except for the names bound in them', () => {
+          const actual = new Interpreter(pureIOHandle).runLine('x. do { f y; :y = x; y }');
+          assert.deepNestedPropertyVal(actual, 'ok.tag', 'Fun');
+          assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['f']);
+        });
+
         it('with no external names, no names are captured', () => {
           const actual = new Interpreter(pureIOHandle).runLine('x. {foo: if x then x else x, bar: :baz, baz: "boom"}');
           assert.deepNestedPropertyVal(actual, 'ok.tag', 'Fun');
@@ -146,7 +254,7 @@ describe('Language features', () => {
         it('with syntax similar to table literals, also allowing shorthands', () => {
           const actual = new Interpreter(pureIOHandle).runLine('{x: y, z}. y');
           const expected = {
-            arg: ast.ArgTable([['x', ast.ArgSingle('y')], ['z', ast.ArgSingle('z')]]),
+            arg: ast.ArgTable({pairs: [['x', ast.ArgSingle('y')], ['z', ast.ArgSingle('z')]], rest: null}),
             expr: ast.Name('y'),
             capturedNames: []
           };
@@ -165,8 +273,155 @@ describe('Language features', () => {
           '({foo: bar}. bar) (x. x)',
           ':foo'
         );
+
+        testPure(
+          'with default values for missing keys',
+          '({name, port: p = 8080}. [name, p]) {name: "db"} ~= ["db", 8080]',
+          { ok: rt.Bool(true) }
+        );
+
+        testPure(
+          'ignoring the default value if the key is there',
+          '({port = 8080}. port) {port: 9090}',
+          '9090'
+        );
+
+        testPure(
+          'evaluating default values in the closure of the function',
+          '(d. ({x = d}. x)) 5 {}',
+          '5'
+        );
+
+        testPure(
+          "where the other parameters aren't visible",
+          '({a, b = a}. b) {a: 1}',
+          { error: 'runtimeError' }
+        );
+
+        testPure(
+          'collecting the other keys into a table',
+          '({name, ..others}. others) {name: "db", port: 1}',
+          '{port: 1}'
+        );
+
+        testPure(
+          'but only if the argument is an actual table',
+          '({..others}. others) (x. x)',
+          { error: 'runtimeError' }
+        );
+
+        it('capturing the names used in default values', () => {
+          const actual = new Interpreter(pureIOHandle).runLine('{x = y, ..z}. x');
+          assert.deepNestedPropertyVal(actual, 'ok.value.fun.capturedNames', ['y']);
+        });
       })
     });
+
+    describe('Match expressions', () => {
+      testPure('pick the first branch that matches', 'match 2 with | 1 -> :one | 2 -> :two | _ -> :many', ':two');
+      testPure('can match strings', 'match "b" with | "a" -> 1 | "b" -> 2', '2');
+      testPure('can match booleans', 'match 1 > 2 with | true -> :yes | false -> :no', ':no');
+      testPure(
+        'can match symbols',
+        '(x. match x with | :ok -> 1 | :error -> 2) :error',
+        '2'
+      );
+      testPure(
+        'can destructure tables',
+        'match {error: "oops", details: 42} with | :ok -> 0 | {error, details} -> details',
+        '42'
+      );
+      testPure(
+        "don't destructure values that aren't tables",
+        'match (x. x) with | {foo} -> :table | _ -> :other',
+        ':other'
+      );
+      testPure(
+        'can destructure lists',
+        'match [1, 2, 3] with | [] -> 0 | [x] -> x | [x, y, ..rest] -> y',
+        '2'
+      );
+      testPure(
+        'can have guards',
+        'match 5 with | n if n < 0 -> :negative | n if n > 0 -> :positive | _ -> :zero',
+        ':positive'
+      );
+      testPure(
+        'can use default values and rest parameters in table patterns',
+        'match {a: 1, b: 2} with | {a, c = 3, ..rest} -> [a, c, rest :b] ~= [1, 3, 2]',
+        { ok: rt.Bool(true) }
+      );
+      testPure('can be nested', 'match 1 with | 1 -> (match 2 with | 3 -> 4 | n -> n)', '2');
+      testPure('fail if no branch matches', 'match 3 with | 1 -> :one | 2 -> :two', { error: 'runtimeError' });
+      it('report the value that did not match', () => {
+        const actual = new Interpreter(pureIOHandle).runLine('match :c with | :a -> 1 | :b -> 2');
+        assert.deepNestedPropertyVal(actual, 'err.err.tag', 'NoMatch');
+        assert.deepNestedPropertyVal(actual, 'err.err.value', rt.Symbol('c'));
+      });
+    });
+
+    describe('Local bindings', () => {
+      testPure('let names values in an expression', 'let x = 1, y = x + 1 in x * y', '2');
+      testPure('can shadow outer names', '(x. let x = x + 1 in x * 10) 1', '20');
+      testPure("don't leak out of the expression", '(let x = 1 in x) + x', { error: 'runtimeError' });
+      testPure(
+        "can't refer to the bindings that come later without `rec`",
+        'let f = n. g n, g = n. n in f 1',
+        { error: 'runtimeError' }
+      );
+      testPure(
+        'can define recursive functions with `let rec`',
+        'let rec fact = n. if n < 1 then 1 else n * fact (n - 1) in fact 5',
+        '120'
+      );
+      testPure(
+        'can define mutually recursive functions with `let rec`',
+        'let rec even? = n. if n < 1 then true else odd? (n - 1), odd? = n. if n < 1 then false else even? (n - 1) in odd? 7',
+        { ok: rt.Bool(true) }
+      );
+      testPure('where names values after the expression', 'x * y where {x = 2, y = x + 1}', '6');
+      testPure(
+        'where can be recursive too',
+        'fib 10 where rec {fib = n. if n < 2 then n else fib (n - 1) + fib (n - 2)}',
+        '55'
+      );
+      it('name the functions they bind', () => {
+        const actual = new Interpreter(pureIOHandle).runLine('let f = x. x in f');
+        assert.deepNestedPropertyVal(actual, 'ok.value.name', 'f');
+      });
+      it("don't change the global environment", () => {
+        const interpreter = new Interpreter(pureIOHandle);
+        interpreter.runLine('let x = 1 in x');
+        assert.deepNestedPropertyVal(interpreter.runLine('x'), 'err.err.tag', 'UndefinedName');
+      });
+    });
+
+    describe('Blocks', () => {
+      testPure('have the value of the last statement', 'do { :x = 2; :y = x * 3; x + y }', '8');
+      testPure('can rebind names', 'do { :x = 1; :x = x + 1; x }', '2');
+      testPure("don't leak their names", 'do { :x = 1; x } + x', { error: 'runtimeError' });
+      testPure(
+        'let functions see the names bound after them',
+        'do { :f = n. g n; :g = n. n * 2; f 21 }',
+        '42'
+      );
+      testPure('work inside functions', '(n. do { :m = n + 1; m * m }) 2', '9');
+      testPure(
+        'get a fresh env every time they run',
+        'List:map (n. do { :m = n; m }) [1, 2] ~= [1, 2]',
+        { ok: rt.Bool(true) }
+      );
+      testPure(
+        'work as loop bodies',
+        '(n. do { :i .= 0; Imp:while ({}. i < n) ({}. do { :next = i + 1; :i .= next }); i }) 3',
+        '3'
+      );
+      it("don't change the global environment", () => {
+        const interpreter = new Interpreter(pureIOHandle);
+        interpreter.runLine('do { :x = 1; x }');
+        assert.deepNestedPropertyVal(interpreter.runLine('x'), 'err.err.tag', 'UndefinedName');
+      });
+    });
   });
 
   describe('Built-in utilities', () => {
@@ -206,6 +461,127 @@ describe('Language features', () => {
       testPure('works with any callable', ':x |> {x: 7} |> (+ 3)', '10');
     });
 
+    describe('IO:try', () => {
+      testPure(
+        'returns the result of a successful call',
+        'IO:try ({}. 42)',
+        '{ok: 42}'
+      );
+      testPure(
+        'describes the error of a failed call',
+        '(IO:try ({}. 1 + "a")) :details',
+        '{expected: "unit", got: "a"}'
+      );
+      testPure(
+        'includes the stack trace of a failed call as a list',
+        'List:get 0 ((IO:try ({}. (:f .= (x. x :y)) {})) :trace) :name',
+        '"f"'
+      );
+    });
+
+    describe('The List module', () => {
+      const isTrue = { ok: rt.Bool(true) };
+      testPure('maps', 'List:map (* 2) [1, 2, 3] ~= [2, 4, 6]', isTrue);
+      testPure('filters', 'List:filter (x. x > 1) [1, 2, 3] ~= [2, 3]', isTrue);
+      testPure('folds from the left', 'List:fold (acc x. acc ++ x) "" ["a", "b", "c"]', '"abc"');
+      testPure('measures the length', 'List:length [1, 2, 3]', '3');
+      testPure('gets items by index', 'List:get 1 [:a, :b, :c]', ':b');
+      testPure('gets items from the end with a negative index', 'List:get (0 - 1) [:a, :b, :c]', ':c');
+      testPure('fails to get items out of range', 'List:get 3 [:a, :b, :c]', { error: 'runtimeError' });
+      testPure('slices', 'List:slice 1 3 [:a, :b, :c, :d] ~= [:b, :c]', isTrue);
+      testPure('concatenates', 'List:concat [1] [2, 3] ~= [1, 2, 3]', isTrue);
+      testPure('sorts numbers', 'List:sort [3, 1, 2] ~= [1, 2, 3]', isTrue);
+      testPure('sorts strings', 'List:sort ["b", "c", "a"] ~= ["a", "b", "c"]', isTrue);
+      testPure('sorts symbols', 'List:sort [:b, :a] ~= [:a, :b]', isTrue);
+      testPure("doesn't sort things that can't be compared", 'List:sort [1, "a"]', { error: 'runtimeError' });
+      testPure('zips', 'List:zip [1, 2, 3] [:a, :b] ~= [[1, :a], [2, :b]]', isTrue);
+      testPure('makes ranges', 'List:range 2 5 ~= [2, 3, 4]', isTrue);
+    });
+
+    describe('Equality and ordering', () => {
+      const isTrue = { ok: rt.Bool(true) };
+      const isFalse = { ok: rt.Bool(false) };
+      testPure('= compares numbers', '1 = 1.0', isTrue);
+      testPure('= compares strings', '"a" = "b"', isFalse);
+      testPure('= compares lists item by item', '[1, [2, "x"]] = [1, [2, "x"]]', isTrue);
+      testPure('= compares tables regardless of key order', '{a: 1, b: [2]} = {b: [2], a: 1}', isTrue);
+      testPure('= notices extra keys', '{a: 1} = {a: 1, b: 2}', isFalse);
+      testPure('= is false for values of different types', '1 = "1"', isFalse);
+      testPure('= is false for different dimensions', 'meters 1 = seconds 1', isFalse);
+      testPure('= compares functions by identity', '(f. f = f) (x. x)', isTrue);
+      testPure("= doesn't consider different lambdas equal", '(x. x) = (x. x)', isFalse);
+      testPure('!= is the opposite of =', '{a: 1} != {a: 2}', isTrue);
+      testPure('~= compares tables too', '{a: 1, b: 2} ~= {b: 2, a: 1}', isTrue);
+      testPure('compare orders numbers', 'compare 1 2', '0 - 1');
+      testPure('compare orders strings', 'compare "b" "a"', '1');
+      testPure('compare finds equal values', 'compare {a: [1]} {a: [1]}', '0');
+      testPure('compare puts a prefix of a list first', 'compare [1, 2] [1]', '1');
+      testPure('compare puts values of different types in order', 'compare true 0', '0 - 1');
+      testPure('< compares strings', '"apple" < "banana"', isTrue);
+      testPure('>= compares symbols', ':a >= :b', isFalse);
+      testPure("< doesn't compare values of different types", '1 < "a"', { error: 'runtimeError' });
+      testPure("< doesn't compare lists", '[1] < [2]', { error: 'runtimeError' });
+      testPure("< doesn't compare different dimensions", 'meters 1 < seconds 1', { error: 'runtimeError' });
+    });
+
+    describe('Boolean operators', () => {
+      testPure('&& is true if both sides are true', 'true && true', { ok: rt.Bool(true) });
+      testPure('&& is false if either side is false', 'true && false', { ok: rt.Bool(false) });
+      testPure('|| is true if either side is true', 'false || true', { ok: rt.Bool(true) });
+      testPure('|| is false if both sides are false', 'false || false', { ok: rt.Bool(false) });
+      testPure('not negates a boolean', 'not false', { ok: rt.Bool(true) });
+      testPure('not is a prefix operator between comparisons and &&', 'not 1 > 2 && 3 > 4', { ok: rt.Bool(false) });
+      testPure('&& binds tighter than ||', 'true || true && false', { ok: rt.Bool(true) });
+      testPure('bind looser than comparisons', '1 < 2 && 3 > 4 || 5 > 4', { ok: rt.Bool(true) });
+      testPure("&& doesn't evaluate the right side if the left one is false", 'false && nope', { ok: rt.Bool(false) });
+      testPure("|| doesn't evaluate the right side if the left one is true", 'true || nope', { ok: rt.Bool(true) });
+      testPure('evaluate the right side when needed', 'true && nope', { error: 'runtimeError' });
+      testPure('fail on non-boolean left operands', '1 && true', { error: 'runtimeError' });
+      testPure('fail on non-boolean right operands', 'true && 1', { error: 'runtimeError' });
+      testPure('not fails on non-booleans', 'not 1', { error: 'runtimeError' });
+      testPure('can be used as functions', 'List:fold (||) false [false, true]', { ok: rt.Bool(true) });
+      testPure(
+        "don't short-circuit when shadowed",
+        '(&& . false && nope) (a b. a)',
+        { error: 'runtimeError' }
+      );
+      it('report the wrong operand type', () => {
+        const actual = new Interpreter(pureIOHandle).runLine('false || "yes"');
+        assert.deepNestedPropertyVal(actual, 'err.err.tag', 'UnexpectedType');
+        assert.deepNestedPropertyVal(actual, 'err.err.value.expected', 'boolean');
+      });
+    });
+
+    describe('Reflection', () => {
+      testPure(
+        'Refl:parse turns source code into data',
+        "Refl:parse 'f 1'",
+        '{tag: :App, fun: {tag: :Name, value: "f"}, arg: {tag: :Dec, value: 1}}'
+      );
+      testPure('Refl:parse reports syntax errors', "Refl:parse '1 +'", { error: 'runtimeError' });
+      testPure('Refl:parse expects a single expression', "Refl:parse '1; 2'", { error: 'runtimeError' });
+      testPure(
+        'Refl:lex turns source code into tokens',
+        "List:map (t. t :content) (Refl:lex 'f (x)') = [\"f\", \"(\", \"x\", \")\"]",
+        { ok: rt.Bool(true) }
+      );
+      testPure('Refl:unparse turns data back into source code', "Refl:unparse (Refl:parse '{a: 1}')", "'{a: 1}'");
+      testPure('Refl:eval evaluates data with the given names', "Refl:eval {x: 20} (Refl:parse 'x * 2 + 2')", '42');
+      testPure(
+        "Refl:eval doesn't see local names",
+        "(x. Refl:eval {} (Refl:parse 'x')) 1",
+        { error: 'runtimeError' }
+      );
+      testPure(
+        'can generate code',
+        'Refl:eval {} {tag: :App, fun: {tag: :Name, value: "negate"}, arg: {tag: :Dec, value: 3}}',
+        '0 - 3'
+      );
+      testPure('Refl:makeMacro only accepts functions', 'Refl:makeMacro 5', { error: 'runtimeError' });
+      testPure('so does macro', 'macro broken 5', { error: 'runtimeError' });
+      testPure('macro definitions are syntax too', "Refl:unparse (Refl:parse 'macro m x. x')", "'(macro m (x. x))'");
+    });
+
     describe('The $ operator', () => {
       testPure('works like |>, but in reverse', '(* 2) $ (+ 1) $ 5', '12');
       testPure(
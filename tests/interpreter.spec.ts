@@ -1,11 +1,16 @@
 import { Either, Err, Ok } from '../src/either';
-import { Interpreter, IOHandle, LangError } from '../src/lang/interpreter';
+import { Backend, Interpreter, IOHandle, LangError, StatefulParser } from '../src/lang/interpreter';
+import { lex, Tok } from '../src/lang/lexer';
+import { unparse } from '../src/lang/parser';
+import { TokenStream } from '../src/language';
 import * as rt from '../src/lang/runtime';
 import * as ast from '../src/lang/ast';
 import Big from 'big.js';
 import { assert } from 'chai';
 import { inspect } from 'util';
-import { pureIOHandle, testIO, testPure } from './_helpers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { listItems, pureIOHandle, runtimeErrorOf, testIO, testPure } from './_helpers';
 
 
 
@@ -51,7 +56,77 @@ describe('The interpreter should evaluate an AST', () => {
     const langError: LangError = {type: 'runtimeError', err: runtimeError};
 
     assert.deepEqual(result, Err(langError));
-  })
+  });
+
+  it('points runtime errors at the innermost failing expression', () => {
+    const i = new Interpreter(pureIOHandle, null, null, null, 'script');
+
+    const result = i.runMultiline('1 + 2;\n:f .= (x. x + 1);\nf (2 + foo)');
+
+    assert.deepNestedPropertyVal(
+      result,
+      'err.err.span',
+      {file: 'script', start: 32, end: 35, line: 3, col: 8}
+    );
+  });
+
+  it('collects a stack trace, naming functions bound with `.=`', () => {
+    const i = new Interpreter(pureIOHandle, null, null, null, 'script');
+
+    const result = i.runMultiline(':f .= (x y. x + y);\n:g .= (x. f x "a");\ng 1');
+
+    assert.deepNestedPropertyVal(result, 'err.err.trace', [
+      {name: '(1 +)', span: {file: 'script', start: 12, end: 17, line: 1, col: 13}},
+      {name: 'f', span: {file: 'script', start: 30, end: 37, line: 2, col: 11}},
+      {name: 'g', span: {file: 'script', start: 40, end: 43, line: 3, col: 1}},
+    ]);
+  });
+});
+
+
+describe('Recursion runs on the heap', () => {
+  const count = ':count .= (n. if n = 0 then 0 else 1 + count (n - 1));';
+  const loop = ':loop .= (n acc. if n = 0 then acc else loop (n - 1) (acc + 1));';
+
+  it('so it can go deeper than the JavaScript stack', () => {
+    const i = new Interpreter(pureIOHandle);
+    assert.deepNestedPropertyVal(i.runMultilineReturnLast(`${count} count 10000`), 'ok', rt.Unit(10000));
+  });
+
+  it('up to the recursion limit', () => {
+    const i = new Interpreter(pureIOHandle);
+    i.recursionLimit = 100;
+    const result = i.runMultiline(`${count}\ncount 200`);
+    assert.deepNestedPropertyVal(result, 'err.err.tag', 'StackOverflow');
+    assert.deepNestedPropertyVal(result, 'err.err.value', 100);
+    assert.deepNestedPropertyVal(result, 'err.err.span.line', 1);
+    assert.lengthOf(runtimeErrorOf(result).trace ?? [], 100);
+    assert.deepNestedPropertyVal(i.runLine('count 50'), 'ok', rt.Unit(50));
+  });
+
+  it("which tail calls don't count towards", () => {
+    const i = new Interpreter(pureIOHandle);
+    i.recursionLimit = 10;
+    assert.deepNestedPropertyVal(i.runMultilineReturnLast(`${loop} loop 1000 0`), 'ok', rt.Unit(1000));
+  });
+
+  it('even when natives call functions', () => {
+    const i = new Interpreter(pureIOHandle);
+    const result = i.runMultiline(':f .= (n. if n = 0 then [] else List:map (_. f (n - 1)) [1]); f 100000');
+    assert.deepNestedPropertyVal(result, 'err.err.tag', 'StackOverflow');
+    assert.deepNestedPropertyVal(result, 'err.err.value', rt.DEFAULT_RECURSION_LIMIT);
+  });
+
+  it('with the same limit for the functions natives call, on every backend', () => {
+    for (const backend of ['tree', 'closures', 'bytecode'] as Backend[]) {
+      const i = new Interpreter(pureIOHandle);
+      i.backend = backend;
+      i.recursionLimit = 10;
+      i.runMultiline(':f .= (n. if n = 0 then [] else List:map (_. f (n - 1)) [1])');
+      assert.deepNestedPropertyVal(i.runLine('f 20'), 'err.err', rt.StackOverflow(10), backend);
+      assert.property(i.runLine('f 4'), 'ok', backend);
+    }
+  });
 });
 
 
@@ -60,6 +135,183 @@ describe('The interpreter integrates the parser and the runtime', () => {
   testPure('3000 * 5.1 = 15300', '3000 * 5.1', '15300');
   testPure('reports tokenization (lexing) errors', 'жжж', {error: 'lexError'});
   testPure('reports parsing errors', '()[[[', {error: 'parseError'});
+  it('reports where parsing got stuck and what was expected there', () => {
+    const result = new Interpreter(pureIOHandle).runMultiline('1 + 2;\n(if a then b c)');
+    assert.deepNestedPropertyVal(
+      result,
+      'err.msg',
+      'at line 2, col 15: expected an expression, an operator, `where`, `;` or `else`, found `)`'
+    );
+  });
+  describe('Syntax errors can be collected all at once', () => {
+    const parseRecovering = (source: string) =>
+      new StatefulParser().parseRecovering(lex(source) as TokenStream<Tok>);
+
+    it('resuming after the next semicolon', () => {
+      const { expressions, errors } = parseRecovering('1 + ; 2; 3 * ; 4');
+      assert.deepEqual(errors.map(e => e.type), ['parseError', 'parseError']);
+      assert.deepEqual(expressions.map(e => unparse(e)), ['2', '4']);
+    });
+
+    it('keeping complete expressions that come before the error', () => {
+      const { expressions, errors } = parseRecovering('1; ) 2; 3');
+      assert.lengthOf(errors, 1);
+      assert.deepEqual(expressions.map(e => unparse(e)), ['1', '3']);
+    });
+
+    it('resuming after a bracketed group', () => {
+      const { expressions, errors } = parseRecovering('{x: (y. )} 5');
+      assert.deepNestedPropertyVal(errors, '[0].msg', 'at line 1, col 9: expected an expression, found `)`');
+      assert.deepEqual(expressions.map(e => unparse(e)), ['5']);
+    });
+
+    it('skipping semicolons inside brackets', () => {
+      const { expressions, errors } = parseRecovering('f (x. ; y); 5');
+      assert.lengthOf(errors, 1);
+      assert.deepEqual(expressions.map(e => unparse(e)), ['5']);
+    });
+
+    it('and reported by the interpreter without running anything', () => {
+      const i = new Interpreter(pureIOHandle);
+      const errors: LangError[] = [];
+      i.runMultilineWithCallback(':x .= 1; 1 +; :y .= ; 2', () => {}, e => errors.push(e));
+      assert.deepEqual(errors.map(e => e.type), ['parseError', 'parseError']);
+      assert.isFalse(i.env.names.has('x'));
+      assert.deepNestedPropertyVal(i.runMultiline(':x .= 1; 1 +; :y .= ; 2'), 'err', errors[0]);
+    });
+  });
+
+  describe('Operator fixity can be declared in the code', () => {
+    const minus = ':<-> .= (a b. a - b);';
+
+    it('with infixl and infixr', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline(`${minus} 10 <-> 5 <-> 2; infixr 5 <->; 10 <-> 5 <-> 2`);
+      assert.deepNestedPropertyVal(result, 'ok[1]', rt.Unit(3));
+      assert.deepNestedPropertyVal(result, 'ok[2]', rt.Unit(7));
+    });
+
+    it('changing how strongly operators bind', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline(`${minus} infixl 9 <->; 2 * 5 <-> 3`);
+      assert.deepNestedPropertyVal(result, 'ok[1]', rt.Unit(4));
+    });
+
+    it("with infix, which can't be chained", () => {
+      const i = new Interpreter(pureIOHandle);
+      assert.deepNestedPropertyVal(i.runMultiline('infix 4 ==; :== .= (=); 1 == 1'), 'ok[1]', rt.Bool(true));
+      assert.deepNestedPropertyVal(
+        i.runMultiline('infix 4 ==; 1 == 1 == true'),
+        'err.msg',
+        "at line 1, col 13: `==` can't be chained without parentheses, because `==` is non-associative"
+      );
+      assert.deepNestedPropertyVal(
+        i.runMultiline('infix 5 ==; a == b < c'),
+        'err.msg',
+        "at line 1, col 13: `==` can't be chained with `<` without parentheses, because `==` is non-associative"
+      );
+    });
+
+    it('without letting the code parsed by Refl:parse declare them', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline(`${minus} infixl 5 <->; Refl:parse "infixr 9 <->; 1"; 2 * 10 <-> 5 <-> 2`);
+      assert.deepNestedPropertyVal(result, 'ok[2]', rt.Unit(13));
+    });
+
+    it('reporting malformed declarations', () => {
+      const i = new Interpreter(pureIOHandle);
+      assert.deepNestedPropertyVal(
+        i.runMultiline('infixl <+>'),
+        'err.msg',
+        'at line 1, col 8: expected a number, found `<+>`'
+      );
+    });
+
+    it('only within the module that declares them', () => {
+      const sources: Record<string, string> = {
+        m: `infixr 5 <->; ${minus} {op: (<->), inside: 10 <-> 5 <-> 2}`,
+      };
+      const io: IOHandle = {
+        ...pureIOHandle,
+        resolveModule: (_location, name) => new Interpreter(io).runMultilineReturnLast(sources[name]),
+      };
+      const i = new Interpreter(io);
+      const result = i.runMultilineReturnLast(":m .= IO:require 'm'; :<-> .= m:op; [m:inside, 10 <-> 5 <-> 2]");
+      assert.deepNestedPropertyVal(result, 'ok.tag', 'List');
+      assert.deepEqual(listItems(result), [rt.Unit(7), rt.Unit(3)]);
+    });
+  });
+
+  describe('Macros rewrite the code before it runs', () => {
+    const swap = 'macro swap f a b. {tag: :App, fun: {tag: :App, fun: f, arg: b}, arg: a};';
+    const withZero = "macro withZero body. {tag: :Let, bindings: [{name: 'x', value: Refl:parse '0'}], body, recursive: false};";
+
+    it('getting the syntax of their arguments', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultilineReturnLast(`${swap} swap (-) 1 10`);
+      assert.deepNestedPropertyVal(result, 'ok', rt.Unit(9));
+    });
+
+    it('applying what is left over to the replacement', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultilineReturnLast(`${swap} swap (a b c. a - b - c) 1 10 2`);
+      assert.deepNestedPropertyVal(result, 'ok', rt.Unit(7));
+    });
+
+    it("without capturing the caller's names", () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultilineReturnLast(`${withZero} [(x. withZero x) 5, withZero 3]`);
+      assert.deepEqual(listItems(result), [rt.Unit(5), rt.Unit(3)]);
+    });
+
+    it('unless a local name hides them', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultilineReturnLast(`${swap} (swap. swap 1) (a. a + 1)`);
+      assert.deepNestedPropertyVal(result, 'ok', rt.Unit(2));
+    });
+
+    it('reporting errors at the call', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline('macro broken x. 1;\nbroken 2');
+      assert.deepNestedPropertyVal(result, 'err.err.span.line', 2);
+      assert.deepNestedPropertyVal(result, 'err.err.trace[0].name', 'broken');
+    });
+
+    it('without looking up any names the code can change', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultilineReturnLast(`IO:define '.=' (a b. 0); :Refl = {}; ${swap} swap (-) 1 10`);
+      assert.deepNestedPropertyVal(result, 'ok', rt.Unit(9));
+    });
+
+    it('reporting expanders that are not functions at `macro`', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline('1;\n  macro broken 5');
+      assert.deepNestedPropertyVal(result, 'err.err.tag', 'UnexpectedType');
+      assert.deepNestedPropertyVal(result, 'err.err.span', {file: '<input>', start: 5, end: 10, line: 2, col: 3});
+    });
+
+    it('reporting macros that need more arguments', () => {
+      const i = new Interpreter(pureIOHandle);
+      const result = i.runMultiline(`${swap} swap (-) 1`);
+      assert.deepNestedPropertyVal(result, 'err.err.tag', 'NotInDomain');
+    });
+
+    it('from the standard library', () => {
+      const io: IOHandle = {
+        ...pureIOHandle,
+        resolveModule: (_location, name) =>
+          new Interpreter(io).runMultilineReturnLast(fs.readFileSync(path.join('stdlib', name), 'utf-8')),
+      };
+      const i = new Interpreter(io);
+      const result = i.runMultilineReturnLast(
+        "IO:unpack (IO:require 'macros'); unless false (for x [1, 2] (x * 10))"
+      );
+      assert.deepEqual(listItems(result), [rt.Unit(10), rt.Unit(20)]);
+      const failed = i.runMultilineReturnLast('assert (1 > 2)');
+      assert.deepNestedPropertyVal(failed, 'err.err.value', rt.Str('assertion failed: ((>) 1 2)'));
+    });
+  });
+
   testIO(
     'can interact with I/O',
     'IO:log (IO:readLine {})',
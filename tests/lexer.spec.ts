@@ -3,8 +3,14 @@ import { highlightCode, lex, Tok } from '../src/lang/lexer';
 import { ColorHandle, identityColorHandle } from '../src/lang/color';
 
 
+// Only for single-line sources: the column is derived from the position
 const tok = (type: Tok, position: number, content: string) =>
-  ({type, position, content});
+  ({
+    type,
+    position,
+    content,
+    span: {file: '<input>', start: position, end: position + content.length, line: 1, col: position + 1},
+  });
 
 
 describe('The lexer should split the text into tokens', () => {
@@ -14,8 +20,12 @@ describe('The lexer should split the text into tokens', () => {
       () => assert.deepEqual(lex('12345'), [tok('dec', 0, '12345')])
     );
     it(
-      'iterprets a minus sign and a sequence of digits as a number',
-      () => assert.deepEqual(lex('-12345'), [tok('dec', 0, '-12345')])
+      "doesn't interpret a minus sign and a sequence of digits as a number",
+      () => assert.deepEqual(lex('-12345'), [tok('op', 0, '-'), tok('dec', 1, '12345')])
+    );
+    it(
+      'splits the minus sign off a number that follows a name',
+      () => assert.deepEqual(lex('x -1'), [tok('name', 0, 'x'), tok('op', 2, '-'), tok('dec', 3, '1')])
     );
     it(
       "doesn't interpret a plus sign and a sequence of digits as a number",
@@ -58,6 +68,13 @@ describe('The lexer should split the text into tokens', () => {
         assert.notDeepEqual(lex('!yes!'), [tok('name', 0, '!yes!')])
       }
     );
+    it(
+      "doesn't treat names that start with a keyword as keywords",
+      () => assert.deepEqual(
+        lex('let letter in index'),
+        [tok('let', 0, 'let'), tok('name', 4, 'letter'), tok('in', 11, 'in'), tok('name', 14, 'index')]
+      )
+    );
   });
 
   describe('Strings are tokenized correctly', () => {
@@ -79,6 +96,78 @@ describe('The lexer should split the text into tokens', () => {
     );
   });
 
+  describe('Interpolated strings are split into parts', () => {
+    it(
+      'with the expressions tokenized as usual',
+      () => assert.deepEqual(lex(`"a {x} b {y}"`), [
+        tok('string2start', 0, '"a {'),
+        tok('name', 4, 'x'),
+        tok('string2mid', 5, '} b {'),
+        tok('name', 10, 'y'),
+        tok('string2end', 11, '}"'),
+      ])
+    );
+    it(
+      'allowing braces and strings inside the expressions',
+      () => assert.deepEqual(lex(`"{ {k: "v"}:k }"`), [
+        tok('string2start', 0, '"{'),
+        tok('lbr', 3, '{'),
+        tok('name', 4, 'k'),
+        tok('col', 5, ':'),
+        tok('string2', 7, '"v"'),
+        tok('rbr', 10, '}'),
+        tok('col', 11, ':'),
+        tok('name', 12, 'k'),
+        tok('string2end', 14, '}"'),
+      ])
+    );
+    it(
+      'unless the brace is escaped',
+      () => assert.deepEqual(lex(`"\\{x}"`), [tok('string2', 0, `"\\{x}"`)])
+    );
+    it(
+      'but not in single-quoted strings',
+      () => assert.deepEqual(lex(`'{x}'`), [tok('string1', 0, `'{x}'`)])
+    );
+    it(
+      'and an unfinished interpolation is an error',
+      () => assert.deepEqual(lex(`f "a {x + 1`), 'at line 1, col 3: unterminated string')
+    );
+  });
+
+  describe('Invalid escape sequences in strings are reported', () => {
+    it(
+      'saying which escape sequence is wrong',
+      () => assert.deepEqual(lex(`foo 'bar\\qux'`), 'at line 1, col 9: unknown escape sequence `\\q`')
+    );
+    it(
+      'pointing at the right line in multi-line strings',
+      () => assert.deepEqual(lex(`"one\n  \\u{zz}"`), 'at line 2, col 3: ' +
+        'expected 1 to 6 hex digits in braces after `\\u`, like `\\u{1F600}`')
+    );
+    it(
+      "rejecting code points that don't exist",
+      () => assert.deepEqual(lex(`"\\u{110000}"`), 'at line 1, col 2: `\\u{110000}` is not a valid code point')
+    );
+  });
+
+  describe('Every token carries a span', () => {
+    it('with the line and column where the token starts', () => {
+      const tokens = lex('foo\n  bar # baz\n\n quux');
+      assert.deepNestedPropertyVal(tokens, '[0].span', {file: '<input>', start: 0, end: 3, line: 1, col: 1});
+      assert.deepNestedPropertyVal(tokens, '[1].span', {file: '<input>', start: 6, end: 9, line: 2, col: 3});
+      assert.deepNestedPropertyVal(tokens, '[2].span', {file: '<input>', start: 18, end: 22, line: 4, col: 2});
+    });
+    it(
+      'with the file name given in the options',
+      () => assert.deepNestedPropertyVal(
+        lex('foo', {file: 'stdlib/list'}),
+        '[0].span',
+        {file: 'stdlib/list', start: 0, end: 3, line: 1, col: 1}
+      )
+    );
+  });
+
   describe('With `includeWs` set to true,', () => {
     it(
       'includes whitespace tokens',
@@ -0,0 +1,131 @@
+import { assert } from 'chai';
+import { Backend, Interpreter, StatefulParser } from '../src/lang/interpreter';
+import { lex, Tok } from '../src/lang/lexer';
+import { unparse } from '../src/lang/parser';
+import { TokenStream } from '../src/language';
+import { Expr } from '../src/lang/ast';
+import { simplifiedOf } from '../src/lang/resolver';
+import * as rt from '../src/lang/runtime';
+import { listItems, pureIOHandle } from './_helpers';
+
+
+const parse = (source: string): Expr => {
+  const parsed = new StatefulParser().parse(lex(source) as TokenStream<Tok>);
+  if ('err' in parsed)
+    throw new Error(parsed.err.msg);
+  return parsed.ok[0];
+};
+
+const optimized = (source: string, setup: string = '1') => {
+  const i = new Interpreter(pureIOHandle);
+  i.optimizing = true;
+  i.runMultiline(setup);
+  const prepared = i.prepare(parse(source));
+  if ('err' in prepared)
+    throw new Error(prepared.err.type);
+  return unparse(prepared.ok);
+};
+
+// What `source` evaluates to without optimizing it, and with it
+const runBoth = (source: string, backend: Backend) =>
+  [false, true].map(enabled => {
+    const i = new Interpreter(pureIOHandle);
+    i.optimizing = enabled;
+    i.backend = backend;
+    return i.runMultilineReturnLast(source);
+  });
+
+
+describe('The optimizer simplifies statements before they run', () => {
+  it('computing built-in operators on literals', () => {
+    assert.strictEqual(optimized('meters 3 * 2 + x'), '((+) (meters 6) x)');
+    assert.strictEqual(optimized('"a" ++ "b" = "ab"'), 'true');
+    assert.strictEqual(optimized('not (2 < 1)'), 'true');
+  });
+
+  it('leaving operations that fail to run', () => {
+    assert.strictEqual(optimized('1 / 0'), '((/) 1 0)');
+    assert.strictEqual(optimized('meters 1 + 1'), '((+) (meters 1) 1)');
+  });
+
+  it('applying lambdas to literals', () => {
+    assert.strictEqual(optimized('(+ 1) 2'), '3');
+    assert.strictEqual(optimized('(x y. x * y) 3'), '(y. ((*) 3 y))');
+    assert.strictEqual(optimized('(x. (x. x) 1) 2'), '1');
+  });
+
+  it('unless a local name would capture the literal', () => {
+    assert.strictEqual(optimized('(x. (true. x) y) true'), '((x. ((true. x) y)) true)');
+  });
+
+  it('picking the branch of a condition', () => {
+    assert.strictEqual(optimized('if 1 < 2 then a else b'), 'a');
+    assert.strictEqual(optimized('if x then 1 + 1 else 3'), 'if x then 2 else 3');
+  });
+
+  it('inlining $ and |>', () => {
+    assert.strictEqual(optimized('negate $ x'), '(negate x)');
+    assert.strictEqual(optimized('(x. x) $ negate $ 1'), '-1');
+    assert.strictEqual(optimized('1 |> (x. x + 1)'), '2');
+    assert.strictEqual(optimized('x. x |> List:map'), '(x. ((|>) x (List :map)))');
+  });
+
+  it('only using operators that have their built-in values', () => {
+    assert.strictEqual(optimized('do {:+ = (-); 1 + 2}'), 'do {:+ = (-); ((+) 1 2)}');
+    assert.strictEqual(optimized('1 + 2', ':+ .= (-)'), '((+) 1 2)');
+  });
+
+  it('only in statements that can\'t redefine the built-ins while they run', () => {
+    assert.strictEqual(optimized('do { :+ .= (a b. 0); 1 + 2 }'), 'do {((.=) :+ (a b. 0)); ((+) 1 2)}');
+    assert.strictEqual(optimized('[f x, 1 + 2]'), '[(f x), ((+) 1 2)]');
+    assert.strictEqual(optimized('f $ g $ 1'), '(($) f (($) g 1))');
+    const programs = [
+      'do { :+ .= (a b. 0); 1 + 2 }',
+      '[:+ .= (a b. 0), 1 + 2]',
+      'do { :true .= false; if true then 1 else 2 }',
+      'do { :$ .= (f x. 99); (x. x) $ 1 }',
+    ];
+    // Functions from different interpreters have different closures
+    for (const backend of ['tree', 'closures', 'bytecode'] as Backend[]) {
+      for (const source of programs) {
+        const [plain, optimizing] = runBoth(source, backend).map(result =>
+          'ok' in result ? rt.prettyPrint(result.ok) : result);
+        assert.deepEqual(optimizing, plain, `${source}, ${backend}`);
+      }
+    }
+  });
+
+  it('applying lambdas to literals inside functions', () => {
+    assert.strictEqual(optimized('x. (y. [y, x]) 1'), '(x. [1, x])');
+    assert.strictEqual(optimized('[x. 1 + 2, 1 + 2]'), '[(x. ((+) 1 2)), 3]');
+  });
+
+  it('running simplified bodies of functions while the built-ins they use are there', () => {
+    const i = new Interpreter(pureIOHandle);
+    i.optimizing = true;
+    const prepared = i.prepare(parse('x. if true then 1 + 1 else x'));
+    if ('err' in prepared || prepared.ok.tag !== 'Lam')
+      throw new Error('Expected a function');
+    assert.strictEqual(unparse(simplifiedOf(prepared.ok.value)?.lambda.expr ?? prepared.ok), '2');
+
+    i.runMultiline(':f .= (x. if true then 1 + 1 else x)');
+    assert.deepEqual(i.runLine('f 1'), {ok: rt.Unit(2)});
+    i.runMultiline(':+ .= (a b. 0)');
+    assert.deepEqual(i.runLine('f 1'), {ok: rt.Unit(0)});
+  });
+
+  it('so that functions see the built-ins they use being redefined', () => {
+    const source = ':f .= (x. 1 + 2); :g .= (x. if true then 1 else 2); :+ .= (a b. 0); :true .= false; [f 1, g 1]';
+    for (const backend of ['tree', 'closures', 'bytecode'] as Backend[]) {
+      const [plain, optimizing] = runBoth(source, backend);
+      assert.deepEqual(optimizing, plain, backend);
+      assert.deepEqual(listItems(optimizing), [rt.Unit(0), rt.Unit(2)], backend);
+    }
+  });
+
+  it('only when enabled', () => {
+    const i = new Interpreter(pureIOHandle);
+    assert.deepNestedPropertyVal(i.prepare(parse('1 + 2')), 'ok.tag', 'App');
+    assert.deepEqual(i.runLine('1 + 2'), {ok: rt.Unit(3)});
+  });
+});
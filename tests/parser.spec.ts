@@ -5,7 +5,9 @@ import { assert } from 'chai';
 import { Tok } from '../src/lang/lexer';
 import { TokenStream } from '../src/language';
 import { Ok } from '../src/either';
+import { hintOf } from '../src/parser';
 import Big from 'big.js';
+import { errorOf } from './_helpers';
 
 
 const defaultOptions : ParseOptions = {
@@ -15,6 +17,10 @@ const defaultOptions : ParseOptions = {
     '*': Prio(8, 'left'),
     '|?': Prio(3, 'right'),
   },
+  prefixOperators: {
+    '-': {fn: 'negate', strength: 6},
+    'not': {fn: 'not', strength: 4.5},
+  },
   backtickPriority: Prio(20, 'right'),
   defaultPriority: Prio(5, 'left'),
 };
@@ -110,6 +116,125 @@ describe('The parser turns a token stream into an AST', () => {
     assert.deepEqual(actual, expected);
   });
 
+  it('match expressions work', () => {
+    const stream: TokenStream<Tok> = [
+      tok('match', 0,  'match'),
+      tok('name',  6,  'x'),
+      tok('with',  8,  'with'),
+      tok('bar',   13, '|'),
+      tok('col',   15, ':'),
+      tok('name',  16, 'a'),
+      tok('arrow', 18, '->'),
+      tok('dec',   21, '1'),
+      tok('bar',   23, '|'),
+      tok('name',  25, 'y'),
+      tok('if',    27, 'if'),
+      tok('name',  30, 'y'),
+      tok('arrow', 32, '->'),
+      tok('dec',   35, '2'),
+    ];
+
+    const actual = defaultParser.parse(stream);
+    const expected: typeof actual = Ok([
+      ast.Match({
+        subject: ast.Name('x'),
+        arms: [
+          {pattern: ast.PatLiteral(ast.Symbol('a')), guard: null, body: ast.Dec(Big(1))},
+          {pattern: ast.PatArg(ast.ArgSingle('y')), guard: ast.Name('y'), body: ast.Dec(Big(2))},
+        ],
+      }),
+      []
+    ]);
+
+    assert.deepEqual(actual, expected);
+  });
+
+  it('let expressions work', () => {
+    const stream: TokenStream<Tok> = [
+      tok('let',   0,  'let'),
+      tok('rec',   4,  'rec'),
+      tok('name',  8,  'f'),
+      tok('op',    10, '='),
+      tok('name',  12, 'g'),
+      tok('comma', 13, ','),
+      tok('name',  15, 'g'),
+      tok('op',    17, '='),
+      tok('dec',   19, '1'),
+      tok('in',    21, 'in'),
+      tok('name',  24, 'f'),
+    ];
+
+    const actual = defaultParser.parse(stream);
+    const expected: typeof actual = Ok([
+      ast.Let({
+        bindings: [
+          {name: 'f', value: ast.Name('g')},
+          {name: 'g', value: ast.Dec(Big(1))},
+        ],
+        body: ast.Name('f'),
+        rec: true,
+      }),
+      []
+    ]);
+
+    assert.deepEqual(actual, expected);
+  });
+
+  it('blocks work', () => {
+    const stream: TokenStream<Tok> = [
+      tok('do',        0,  'do'),
+      tok('lbr',       3,  '{'),
+      tok('col',       4,  ':'),
+      tok('name',      5,  'x'),
+      tok('op',        7,  '='),
+      tok('dec',       9,  '1'),
+      tok('semicolon', 10, ';'),
+      tok('name',      12, 'f'),
+      tok('name',      14, 'x'),
+      tok('semicolon', 15, ';'),
+      tok('col',       17, ':'),
+      tok('name',      18, 'x'),
+      tok('rbr',       19, '}'),
+    ];
+
+    const actual = defaultParser.parse(stream);
+    const expected: typeof actual = Ok([
+      ast.Block([
+        {name: 'x', expr: ast.Dec(Big(1))},
+        {name: null, expr: ast.App({fun: ast.Name('f'), arg: ast.Name('x')})},
+        {name: null, expr: ast.Symbol('x')},
+      ]),
+      []
+    ]);
+
+    assert.deepEqual(actual, expected);
+  });
+
+  it('where clauses work', () => {
+    const stream: TokenStream<Tok> = [
+      tok('name',  0,  'f'),
+      tok('name',  2,  'x'),
+      tok('where', 4,  'where'),
+      tok('lbr',   10, '{'),
+      tok('name',  11, 'x'),
+      tok('op',    13, '='),
+      tok('dec',   15, '1'),
+      tok('rbr',   16, '}'),
+    ];
+
+    const actual = defaultParser.parse(stream);
+    const expected: typeof actual = Ok([
+      ast.Let({
+        bindings: [{name: 'x', value: ast.Dec(Big(1))}],
+        body: ast.App({fun: ast.Name('f'), arg: ast.Name('x')}),
+        rec: false,
+      }),
+      []
+    ]);
+
+    assert.deepEqual(actual, expected);
+  });
+
   describe('Function definitions', () => {
     it('can have a single name as a parameter', () => {
       const stream: TokenStream<Tok> = [
@@ -169,10 +294,48 @@ describe('The parser turns a token stream into an AST', () => {
       const actual = defaultParser.parse(stream);
       const expected: typeof actual = Ok([
         ast.makeLambda(
-          ast.ArgTable([
+          ast.ArgTable({pairs: [
             ['x', ast.ArgSingle('y')],
             ['z', ast.ArgSingle('z')],
-          ]),
+          ], rest: null}),
+          ast.Name('w'),
+        ),
+        []
+      ]);
+
+      assert.deepEqual(actual, expected);
+    });
+
+    it('can have default values and a rest parameter', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lbr',   0,  '{'),
+        tok('name',  1,  'x'),
+        tok('col',   2,  ':'),
+        tok('name',  4,  'y'),
+        tok('op',    6,  '='),
+        tok('dec',   8,  '1'),
+        tok('comma', 9,  ','),
+        tok('name',  11, 'z'),
+        tok('op',    13, '='),
+        tok('dec',   15, '2'),
+        tok('comma', 16, ','),
+        tok('op',    18, '..'),
+        tok('name',  20, 'w'),
+        tok('rbr',   21, '}'),
+        tok('dot',   22, '.'),
+        tok('name',  24, 'w'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([
+        ast.makeLambda(
+          ast.ArgTable({
+            pairs: [
+              ['x', ast.ArgDefault({arg: ast.ArgSingle('y'), default: ast.Dec(Big(1))})],
+              ['z', ast.ArgDefault({arg: ast.ArgSingle('z'), default: ast.Dec(Big(2))})],
+            ],
+            rest: ast.ArgSingle('w'),
+          }),
           ast.Name('w'),
         ),
         []
@@ -199,10 +362,10 @@ describe('The parser turns a token stream into an AST', () => {
       const actual = defaultParser.parse(stream);
       const expected: typeof actual = Ok([
         ast.makeLambda(
-          ast.ArgTable([
-            ['x', ast.ArgTable([['y', ast.ArgSingle('y')]])],
+          ast.ArgTable({pairs: [
+            ['x', ast.ArgTable({pairs: [['y', ast.ArgSingle('y')]], rest: null})],
             ['z', ast.ArgSingle('z')],
-          ]),
+          ], rest: null}),
           ast.Name('w'),
         ),
         []
@@ -233,10 +396,10 @@ describe('The parser turns a token stream into an AST', () => {
         ast.makeLambda(
           ast.ArgSingle('a'),
           ast.makeLambda(
-            ast.ArgTable([
-              ['x', ast.ArgTable([['y', ast.ArgSingle('y')]])],
+            ast.ArgTable({pairs: [
+              ['x', ast.ArgTable({pairs: [['y', ast.ArgSingle('y')]], rest: null})],
               ['z', ast.ArgSingle('z')],
-            ]),
+            ], rest: null}),
             ast.makeLambda(
               ast.ArgSingle('b'),
               ast.Name('w'),
@@ -429,6 +592,118 @@ describe('The parser turns a token stream into an AST', () => {
 
       assert.deepEqual(actual, expected)
     });
+
+    it('can spread other tables', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lbr',   0, '{'),
+        tok('op',    1, '..'),
+        tok('name',  3, 'base'),
+        tok('comma', 7, ','),
+        tok('name',  9, 'x'),
+        tok('col',   10, ':'),
+        tok('dec',   12, '1'),
+        tok('rbr',   13, '}'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([
+        ast.Table([
+          [null, ast.Name('base')],
+          ['x', ast.Dec(Big(1))],
+        ]),
+        []
+      ]);
+
+      assert.deepEqual(actual, expected)
+    });
+  });
+
+  describe('List literals', () => {
+    it('can have spread items and a trailing comma', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lsq',   0, '['),
+        tok('name',  1, 'x'),
+        tok('comma', 2, ','),
+        tok('op',    4, '..'),
+        tok('name',  6, 'xs'),
+        tok('comma', 8, ','),
+        tok('rsq',   9, ']'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([
+        ast.List([
+          {expr: ast.Name('x'), spread: false},
+          {expr: ast.Name('xs'), spread: true},
+        ]),
+        []
+      ]);
+
+      assert.deepEqual(actual, expected)
+    });
+
+    it('can be used as function parameters', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lsq',   0,  '['),
+        tok('name',  1,  'x'),
+        tok('comma', 2,  ','),
+        tok('op',    4,  '..'),
+        tok('name',  6,  'xs'),
+        tok('rsq',   8,  ']'),
+        tok('dot',   9,  '.'),
+        tok('name',  11, 'xs'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([
+        ast.makeLambda(
+          ast.ArgList({items: [ast.ArgSingle('x')], rest: ast.ArgSingle('xs')}),
+          ast.Name('xs'),
+        ),
+        []
+      ]);
+
+      assert.deepEqual(actual, expected)
+    });
+  });
+
+  describe('Interpolated strings', () => {
+    it('keep the literal parts and the expressions apart', () => {
+      const stream: TokenStream<Tok> = [
+        tok('string2start', 0,  '"a {'),
+        tok('name',         4,  'x'),
+        tok('string2mid',   5,  '} b {'),
+        tok('name',         10, 'f'),
+        tok('name',         12, 'y'),
+        tok('string2end',   13, '}"'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([
+        ast.Template({
+          strings: ['a ', ' b ', ''],
+          exprs: [
+            ast.Name('x'),
+            ast.App({fun: ast.Name('f'), arg: ast.Name('y')}),
+          ],
+        }),
+        []
+      ]);
+
+      assert.deepEqual(actual, expected)
+    });
+
+    it('must close the interpolated expression', () => {
+      const stream: TokenStream<Tok> = [
+        tok('string2start', 0, '"a {'),
+        tok('name',         4, 'x'),
+        tok('rp',           5, ')'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      assert.deepNestedPropertyVal(actual, 'err.recoverable', false);
+      assert.deepNestedPropertyVal(actual, 'err.msg', 'Expected `}` after the interpolated expression');
+    });
   });
 
   describe('Infix operators are tricky', () => {
@@ -519,6 +794,34 @@ describe('The parser turns a token stream into an AST', () => {
       assert.deepEqual(actual, expected);
     });
 
+    it("doesn't chain non-associative operators", () => {
+      const opts: ParseOptions = {
+        ...defaultOptions,
+        priorities: {'==': Prio(4, 'none')},
+      };
+      const [parser] = p.makeParser(opts);
+
+      const stream: TokenStream<Tok> = [
+        tok('name', 0, 'a'),
+        tok('op',   1, '=='),
+        tok('name', 3, 'b'),
+        tok('op',   4, '=='),
+        tok('name', 6, 'c'),
+      ];
+
+      const actual = parser.parse(stream);
+      assert.deepNestedPropertyVal(actual, 'err.recoverable', false);
+      assert.deepNestedPropertyVal(
+        actual,
+        'err.msg',
+        "`==` can't be chained without parentheses, because `==` is non-associative"
+      );
+
+      const once = parser.parse(stream.slice(0, 3));
+      const expected: typeof once = Ok([app(app('==', 'a'), 'b'), []]);
+      assert.deepEqual(once, expected);
+    });
+
     it('uses backtickPriority for the priority of backticked expressions', () => {
       const opts: ParseOptions = {
         ...defaultOptions,
@@ -601,4 +904,223 @@ describe('The parser turns a token stream into an AST', () => {
       assert.deepEqual(actual2, expected2);
     })
   })
+
+  describe('Prefix operators', () => {
+    const app = (f: ast.Expr | string, a: ast.Expr | string): ast.Expr => {
+      const fun = typeof f === 'string' ? ast.Name(f) : f;
+      const arg = typeof a === 'string' ? ast.Name(a) : a;
+      return ast.App({fun, arg});
+    }
+    const infix = (op: string, a: ast.Expr | string, b: ast.Expr | string) => app(app(op, a), b);
+    const one = ast.Dec(Big(1));
+
+    it('a minus sign after a name is subtraction: x -1 means x - 1', () => {
+      const stream: TokenStream<Tok> = [
+        tok('name', 0, 'x'),
+        tok('op',   2, '-'),
+        tok('dec',  3, '1'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([infix('-', 'x', one), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('a minus sign at the start is negation: -f x means negate (f x)', () => {
+      const stream: TokenStream<Tok> = [
+        tok('op',   0, '-'),
+        tok('name', 1, 'f'),
+        tok('name', 3, 'x'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([app('negate', app('f', 'x')), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('can follow an infix operator: a * -b means a * (negate b)', () => {
+      const stream: TokenStream<Tok> = [
+        tok('name', 0, 'a'),
+        tok('op',   2, '*'),
+        tok('op',   4, '-'),
+        tok('name', 5, 'b'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([infix('*', 'a', app('negate', 'b')), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('binds weaker than stronger infix operators: -a * b means negate (a * b)', () => {
+      const stream: TokenStream<Tok> = [
+        tok('op',   0, '-'),
+        tok('name', 1, 'a'),
+        tok('op',   3, '*'),
+        tok('name', 5, 'b'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([app('negate', infix('*', 'a', 'b')), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('binds like a left-associative operator of the same strength: -a + b means (negate a) + b', () => {
+      const stream: TokenStream<Tok> = [
+        tok('op',   0, '-'),
+        tok('name', 1, 'a'),
+        tok('op',   3, '+'),
+        tok('name', 5, 'b'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([infix('+', app('negate', 'a'), 'b'), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('can be stacked: - - a means negate (negate a)', () => {
+      const stream: TokenStream<Tok> = [
+        tok('op',   0, '-'),
+        tok('op',   2, '-'),
+        tok('name', 3, 'a'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([app('negate', app('negate', 'a')), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('can be names: not a < b |? c means (not (a < b)) |? c', () => {
+      const stream: TokenStream<Tok> = [
+        tok('name', 0,  'not'),
+        tok('name', 4,  'a'),
+        tok('op',   6,  '<'),
+        tok('name', 8,  'b'),
+        tok('op',   10, '|?'),
+        tok('name', 13, 'c'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([infix('|?', app('not', infix('<', 'a', 'b')), 'c'), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('are just names when nothing follows them: (not)', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lp',   0, '('),
+        tok('name', 1, 'not'),
+        tok('rp',   4, ')'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([ast.Name('not'), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('are not left operator sections: (- 1) means negate 1', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lp',  0, '('),
+        tok('op',  1, '-'),
+        tok('dec', 3, '1'),
+        tok('rp',  4, ')'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([app('negate', one), []]);
+      assert.deepEqual(actual, expected);
+    });
+
+    it('can still be used as bare operators: (-) 1', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lp',  0, '('),
+        tok('op',  1, '-'),
+        tok('rp',  2, ')'),
+        tok('dec', 4, '1'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([app('-', one), []]);
+      assert.deepEqual(actual, expected);
+    });
+  });
+
+  describe('Fixity declarations', () => {
+    it('are parsed into an operator and its priority', () => {
+      const stream: TokenStream<Tok> = [
+        tok('infix',     0,  'infixr'),
+        tok('dec',       7,  '3'),
+        tok('op',        9,  '<|>'),
+        tok('semicolon', 12, ';'),
+      ];
+
+      const actual = p.fixityDeclaration.parse(stream);
+      const expected: typeof actual = Ok([{operator: '<|>', priority: Prio(3, 'right')}, []]);
+      assert.deepEqual(actual, expected);
+    });
+  });
+
+  describe('Parse errors', () => {
+    it('remember how far the parser got', () => {
+      const stream: TokenStream<Tok> = [
+        tok('if',   0, 'if'),
+        tok('name', 3, 'a'),
+        tok('name', 5, 'b'),
+        tok('else', 7, 'else'),
+        tok('name', 12, 'c'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+
+      assert.nestedPropertyVal(actual, 'err.remaining', 2);
+    });
+
+    it('combine what was expected by the alternatives that got the furthest', () => {
+      const stream: TokenStream<Tok> = [
+        tok('if',   0, 'if'),
+        tok('name', 3, 'a'),
+        tok('name', 5, 'b'),
+        tok('else', 7, 'else'),
+        tok('name', 12, 'c'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+
+      assert.sameMembers(
+        [...errorOf(actual).expected ?? []],
+        ['an expression', 'an operator', '`where`', '`;`', '`then`']
+      );
+    });
+
+    it('are described with the position and the offending token', () => {
+      const stream: TokenStream<Tok> = [
+        tok('lbr',   0, '{'),
+        tok('name',  1, 'a'),
+        tok('comma', 2, ','),
+        tok('comma', 3, ','),
+        tok('rbr',   4, '}'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      if (!('err' in actual))
+        return assert.fail('Expected a parse error');
+
+      assert.deepEqual(
+        p.describeParseError(stream, actual.err),
+        {msg: 'at position 3: expected `..`, a name, an operator or `}`, found `,`', span: undefined}
+      );
+    });
+
+    it("don't blame partially parsed function parameters", () => {
+      const stream: TokenStream<Tok> = [
+        tok('name', 0, 'a'),
+        tok('name', 2, 'b'),
+        tok('rp',   4, ')'),
+      ];
+
+      const actual = defaultParser.parse(stream);
+      const expected: typeof actual = Ok([ast.App({fun: ast.Name('a'), arg: ast.Name('b')}), [stream[2]]]);
+
+      assert.deepEqual(actual, expected);
+      assert.notInclude(hintOf(actual)!.expected || [], '`.`');
+    });
+  });
 });
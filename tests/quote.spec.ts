@@ -0,0 +1,107 @@
+import { assert } from 'chai';
+import { List as ImmutableList, Map } from 'immutable';
+import Fraction from 'fraction.js';
+import * as rt from '../src/lang/runtime';
+import * as ast from '../src/lang/ast';
+import { lex, Tok } from '../src/lang/lexer';
+import { makeParser, unparse } from '../src/lang/parser';
+import { ParseOptions, Prio } from '../src/lang/ast';
+import { TokenStream } from '../src/language';
+import { valuesEqual } from '../src/lang/equality';
+import { exprToValue, tokenToValue, valueToExpr } from '../src/lang/quote';
+
+
+const options: ParseOptions = {
+  priorities: {'+': Prio(6, 'left')},
+  prefixOperators: {'-': {fn: 'negate', strength: 6}},
+  backtickPriority: Prio(20, 'right'),
+  defaultPriority: Prio(5, 'left'),
+};
+const [parser] = makeParser(options);
+
+const parse = (source: string): ast.Expr => {
+  const parsed = parser.parse(lex(source) as TokenStream<Tok>);
+  if ('err' in parsed)
+    throw new Error(parsed.err.msg);
+  return parsed.ok[0];
+};
+
+const node = (tag: string, fields: Record<string, rt.Value>) =>
+  rt.Table(Map({tag: rt.Symbol(tag), ...fields}));
+
+
+describe('Syntax can be turned into values and back', () => {
+  it('turns a node into a table tagged with its variant', () => {
+    const expected = node('App', {
+      fun: node('Name', {value: rt.Str('f')}),
+      arg: node('Dec', {value: rt.Unit(1)}),
+    });
+    assert.isTrue(valuesEqual(exprToValue(parse('f 1')), expected));
+  });
+
+  it('renames the fields of conditionals, which are keywords', () => {
+    const value = exprToValue(parse('if a then b else c'));
+    assert.hasAllKeys((value as {value: Map<string, rt.Value>}).value.toObject(), [
+      'tag', 'condition', 'ifTrue', 'ifFalse',
+    ]);
+  });
+
+  it('uses :nil for the key of a spread entry', () => {
+    const value = exprToValue(parse('{..a}'));
+    const entries = node('Table', {
+      value: rt.List(ImmutableList([rt.Table(Map({
+        key: rt.Symbol('nil'),
+        value: node('Name', {value: rt.Str('a')}),
+      }))])),
+    });
+    assert.isTrue(valuesEqual(value, entries));
+  });
+
+  for (const source of [
+    '(x. x)',
+    '({a, b: [c, ..d], e = 1, ..f}. "x{a}y")',
+    'if a then {x: 1, ..b} else [1, ..c]',
+    'match x with | :a -> 1 | {b} if b -> 2',
+    'let rec f = g, g = f in f where {h = 1}',
+    'do {:x = 1; x}',
+    '-x + 1',
+  ]) {
+    it(`reads back what it has written: ${source}`, () => {
+      const expr = parse(source);
+      const roundTrip = valueToExpr(exprToValue(expr));
+      assert.deepEqual(unparse((roundTrip as {ok: ast.Expr}).ok), unparse(expr));
+    });
+  }
+
+  it('recomputes the names captured by lambdas', () => {
+    const expr = valueToExpr(exprToValue(parse('x. x y')));
+    assert.deepNestedPropertyVal(expr, 'ok.value.capturedNames', ['y']);
+  });
+
+  it('fails on unknown tags', () => {
+    const actual = valueToExpr(node('Nope', {}));
+    assert.deepNestedPropertyVal(actual, 'err.tag', 'NotInDomain');
+  });
+
+  it('fails on missing fields', () => {
+    const actual = valueToExpr(node('App', {fun: node('Name', {value: rt.Str('f')})}));
+    assert.deepNestedPropertyVal(actual, 'err.tag', 'MissingKey');
+    assert.deepNestedPropertyVal(actual, 'err.value', 'arg');
+  });
+
+  it('fails on numbers with a dimension', () => {
+    const actual = valueToExpr(node('Dec', {value: rt.Unit(1, {L: new Fraction(1)})}));
+    assert.deepNestedPropertyVal(actual, 'err.tag', 'DimensionMismatch');
+  });
+
+  it('turns tokens into tables', () => {
+    const [token] = lex('  foo') as TokenStream<Tok>;
+    const expected = rt.Table(Map<rt.Value>({
+      type: rt.Str('name'),
+      content: rt.Str('foo'),
+      line: rt.Unit(1),
+      col: rt.Unit(3),
+    }));
+    assert.isTrue(valuesEqual(tokenToValue(token), expected));
+  });
+});
@@ -0,0 +1,101 @@
+import { assert } from 'chai';
+import { Interpreter, StatefulParser } from '../src/lang/interpreter';
+import { lex, Tok } from '../src/lang/lexer';
+import { TokenStream } from '../src/language';
+import { Expr, Lambda } from '../src/lang/ast';
+import { Address, addressOf, Captures, capturesOf, Global, Local, resolve } from '../src/lang/resolver';
+import { walk } from '../src/lang/visitor';
+import * as rt from '../src/lang/runtime';
+import { Map } from 'immutable';
+import { pureIOHandle, testPure } from './_helpers';
+
+
+const parse = (source: string): Expr => {
+  const parsed = new StatefulParser().parse(lex(source) as TokenStream<Tok>);
+  if ('err' in parsed)
+    throw new Error(parsed.err.msg);
+  return parsed.ok[0];
+};
+
+// The addresses of the names, in source order
+const addresses = (source: string): [string, Address | undefined][] => {
+  const rv: [string, Address | undefined][] = [];
+  walk(resolve(parse(source)), node => {
+    if (node.tag === 'Name')
+      rv.push([node.value, addressOf(node)]);
+  });
+  return rv;
+};
+
+// The captures of the lambdas, outermost first
+const captures = (source: string): (Captures | undefined)[] => {
+  const rv: (Captures | undefined)[] = [];
+  walk(resolve(parse(source)), node => {
+    if (node.tag === 'Lam')
+      rv.push(capturesOf(node.value as Lambda));
+  });
+  return rv;
+};
+
+
+describe('The resolver gives names their lexical addresses', () => {
+  it('counting envs up to the one that binds the name', () => {
+    assert.deepEqual(addresses('x. match x with | [a, b] -> a + y'), [
+      ['x', Local({depth: 0, index: 0})],
+      ['+', Global(3)],
+      ['a', Local({depth: 0, index: 0})],
+      ['y', Global(3)],
+    ]);
+  });
+
+  it('giving every binding of a `let` its own env', () => {
+    assert.deepEqual(addresses('let a = 1, b = a in [a, b]'), [
+      ['a', Local({depth: 0, index: 0})],
+      ['a', Local({depth: 0, index: 0})],
+      ['b', Local({depth: 0, index: 1})],
+    ]);
+  });
+
+  it('picking the last of the names bound twice', () => {
+    assert.deepEqual(addresses('[x, x]. x'), [['x', Local({depth: 0, index: 1})]]);
+  });
+
+  it('keeping only the local names a function captures', () => {
+    assert.deepEqual(captures('a b. c. a + d'), [
+      {names: [], addresses: [], depth: 0},
+      {names: ['a'], addresses: [Local({depth: 0, index: 0})], depth: 2},
+      {names: ['a'], addresses: [Local({depth: 1, index: 0})], depth: 2},
+    ]);
+  });
+
+  it('keeping the whole env when a captured name can still be bound', () => {
+    assert.deepEqual(captures('let rec f = (x. g x), g = (x. x) in f'), [null, {names: [], addresses: [], depth: 1}]);
+    assert.deepEqual(captures('do {:g = (x. x); :f = (x. g x)}')[1], {
+      names: ['g'],
+      addresses: [Local({depth: 0, index: 0})],
+      depth: 1,
+    });
+  });
+
+  it('leaving the nodes equal to the unresolved ones', () => {
+    const expr = parse('x. let y = x in y');
+    assert.deepEqual(resolve(expr), expr);
+  });
+});
+
+
+describe('Resolved code runs like before', () => {
+  testPure('with names bound twice', '([x, x]. x) [1, 2]', {ok: rt.Unit(2)});
+  testPure('with `let`', 'let x = 1, x = x + 1, y = x in [x, y]', '[2, 2]');
+  testPure('with names bound later in a block', 'do {:f = (x. g x); :g = (x. x + 1); f 1}', {ok: rt.Unit(2)});
+  testPure('with default values', '(a. ({x = a}. x)) 1 {}', {ok: rt.Unit(1)});
+
+  it('with closures that only keep the names they capture', () => {
+    const i = new Interpreter(pureIOHandle);
+    const closure = i.runMultilineReturnLast(':f .= (a b. (c. a)); Refl:get_closure (f 1 2)');
+    assert.deepEqual(closure, {ok: rt.Table(Map({
+      parent: rt.Symbol('nil'),
+      names: rt.Table(Map({a: rt.Unit(1)})),
+    }))});
+  });
+});
@@ -36,6 +36,27 @@ describe('The `unparse` function turns AST back to source code', () => {
     );
   });
 
+  it('escapes special characters in strings', () => {
+    assert.deepEqual(
+      p.unparse(ast.Str('say "hi"\n\\\u0000')),
+      '"say \\"hi\\"\\n\\\\\\u{0}"'
+    );
+    assert.deepEqual(p.unparse(ast.Str('{x}')), '"\\{x\\}"');
+  });
+
+  it('works with interpolated strings', () => {
+    assert.deepEqual(
+      p.unparse(ast.Template({
+        strings: ['{', ', ', '!'],
+        exprs: [
+          ast.Name('greeting'),
+          ast.App({fun: ast.Name('f'), arg: ast.Str('x')}),
+        ],
+      })),
+      '"\\{{greeting}, {(f "x")}!"'
+    );
+  });
+
   it('works with symbols', () => {
     assert.deepEqual(
       p.unparse(ast.Symbol('iAmASymbol')),
@@ -53,6 +74,26 @@ describe('The `unparse` function turns AST back to source code', () => {
     );
   });
 
+  it('works with table spreads', () => {
+    assert.deepEqual(
+      p.unparse(ast.Table([
+        [null, ast.Name('base')],
+        ['x', ast.Name('y')],
+      ])),
+      '{..base, x: y}'
+    );
+  });
+
+  it('works with lists', () => {
+    assert.deepEqual(
+      p.unparse(ast.List([
+        {expr: ast.Name('x'), spread: false},
+        {expr: ast.List([]), spread: true},
+      ])),
+      '[x, ..[]]'
+    );
+  });
+
   describe('Works with function application', () => {
     it('puts application in parentheses', () => {
       assert.deepEqual(
@@ -102,6 +143,55 @@ describe('The `unparse` function turns AST back to source code', () => {
     );
   });
 
+  it('works with match expressions', () => {
+    assert.deepEqual(
+      p.unparse(ast.Match({
+        subject: ast.Name('x'),
+        arms: [
+          {pattern: ast.PatLiteral(ast.Str('a')), guard: null, body: ast.Dec(Big(1))},
+          {
+            pattern: ast.PatArg(ast.ArgList({items: [ast.ArgSingle('y')], rest: null})),
+            guard: ast.Name('y'),
+            body: ast.Name('y'),
+          },
+        ],
+      })),
+      '(match x with | "a" -> 1 | [y] if y -> y)'
+    );
+  });
+
+  it('works with let expressions', () => {
+    assert.deepEqual(
+      p.unparse(ast.Let({
+        bindings: [
+          {name: 'x', value: ast.Dec(Big(1))},
+          {name: 'y', value: ast.Name('x')},
+        ],
+        body: ast.Name('y'),
+        rec: false,
+      })),
+      '(let x = 1, y = x in y)'
+    );
+    assert.deepEqual(
+      p.unparse(ast.Let({
+        bindings: [{name: 'f', value: ast.Name('f')}],
+        body: ast.Name('f'),
+        rec: true,
+      })),
+      '(let rec f = f in f)'
+    );
+  });
+
+  it('works with blocks', () => {
+    assert.deepEqual(
+      p.unparse(ast.Block([
+        {name: 'x', expr: ast.Dec(Big(1))},
+        {name: null, expr: ast.Name('x')},
+      ])),
+      'do {:x = 1; x}'
+    );
+  });
+
   describe('Works with function definitions', () => {
     it('works with the simple identity function', () => {
       assert.deepEqual(
@@ -126,13 +216,13 @@ describe('The `unparse` function turns AST back to source code', () => {
     });
 
     it('works with table parameters', () => {
-      const param = ast.ArgTable([
+      const param = ast.ArgTable({pairs: [
         ['a', ast.ArgSingle('b')],
-        ['c', ast.ArgTable([
+        ['c', ast.ArgTable({pairs: [
           ['d', ast.ArgSingle('e')],
           ['f', ast.ArgSingle('g')],
-        ])],
-      ]);
+        ], rest: null})],
+      ], rest: null});
       assert.deepEqual(
         p.unparse(ast.makeLambda(param, ast.Dec(Big('3.14')))),
         '({a: b, c: {d: e, f: g}}. 3.14)'
@@ -140,22 +230,48 @@ describe('The `unparse` function turns AST back to source code', () => {
     });
 
     it('squishes table parameter shorthands, just like in source', () => {
-      const param = ast.ArgTable([
+      const param = ast.ArgTable({pairs: [
         ['a', ast.ArgSingle('b')],
         ['c', ast.ArgSingle('c')],
-      ]);
+      ], rest: null});
       assert.deepEqual(
         p.unparse(ast.makeLambda(param, ast.Dec(Big('3.14')))),
         '({a: b, c}. 3.14)'
       )
     });
 
+    it('works with default values and rest parameters', () => {
+      const param = ast.ArgTable({
+        pairs: [
+          ['name', ast.ArgSingle('name')],
+          ['port', ast.ArgDefault({arg: ast.ArgSingle('p'), default: ast.Dec(Big(8080))})],
+          ['host', ast.ArgDefault({arg: ast.ArgSingle('host'), default: ast.Str('localhost')})],
+        ],
+        rest: ast.ArgSingle('others'),
+      });
+      assert.deepEqual(
+        p.unparse(ast.makeLambda(param, ast.Name('p'))),
+        '({name, port: p = 8080, host = "localhost", ..others}. p)'
+      )
+    });
+
+    it('works with list parameters', () => {
+      const param = ast.ArgList({
+        items: [ast.ArgSingle('a'), ast.ArgTable({pairs: [['b', ast.ArgSingle('b')]], rest: null})],
+        rest: ast.ArgSingle('c'),
+      });
+      assert.deepEqual(
+        p.unparse(ast.makeLambda(param, ast.Name('c'))),
+        '([a, {b}, ..c]. c)'
+      )
+    });
+
     it('works with mixed parameters in curried functions', () => {
       const param0 = ast.ArgSingle('x');
-      const param1 = ast.ArgTable([
+      const param1 = ast.ArgTable({pairs: [
         ['a', ast.ArgSingle('b')],
         ['c', ast.ArgSingle('c')],
-      ]);
+      ], rest: null});
       const param2 = ast.ArgSingle('y');
       assert.deepEqual(
         p.unparse(
@@ -190,6 +306,21 @@ describe('The `unparse` function turns AST back to source code', () => {
     )
   });
 
+  it("doesn't turn subtraction from `_` into a section, because (- 5) is negation", () => {
+    assert.deepEqual(
+      p.unparse(
+        ast.makeLambda(ast.ArgSingle('_'), ast.App({
+          fun: ast.App({
+            fun: ast.Name('-'),
+            arg: ast.Name('_')
+          }),
+          arg: ast.Dec(Big(5)),
+        }))
+      ),
+      '(_. ((-) _ 5))'
+    )
+  });
+
   it("replaces deep nesting with '...'", () => {
     const pair: [string, ast.Expr] = ['x', ast.Str('')];
     const tableThatContainsItself = ast.Table([pair]);
@@ -0,0 +1,135 @@
+import { assert } from 'chai';
+import Big from 'big.js';
+import * as ast from '../src/lang/ast';
+import { lex, Tok } from '../src/lang/lexer';
+import { makeParser, unparse } from '../src/lang/parser';
+import { ParseOptions, Prio } from '../src/lang/ast';
+import { TokenStream } from '../src/language';
+import * as v from '../src/lang/visitor';
+
+
+const options: ParseOptions = {
+  priorities: {'+': Prio(6, 'left'), '*': Prio(7, 'left')},
+  prefixOperators: {},
+  backtickPriority: Prio(20, 'right'),
+  defaultPriority: Prio(5, 'left'),
+};
+const [parser] = makeParser(options);
+
+const parse = (source: string): ast.Expr => {
+  const parsed = parser.parse(lex(source) as TokenStream<Tok>);
+  if ('err' in parsed)
+    throw new Error(parsed.err.msg);
+  return parsed.ok[0];
+};
+
+const show = (node: v.Node) => unparse(node as ast.Expr);
+
+// `a + b` where both are numbers becomes their sum
+const addNumbers = (node: v.Node): v.Node => {
+  if (
+    node.tag === 'App' && node.value.arg.tag === 'Dec'
+    && node.value.fun.tag === 'App' && node.value.fun.value.arg.tag === 'Dec'
+    && node.value.fun.value.fun.tag === 'Name' && node.value.fun.value.fun.value === '+'
+  )
+    return ast.Dec(node.value.fun.value.arg.value.add(node.value.arg.value));
+  return node;
+};
+
+
+describe('Syntax trees can be traversed', () => {
+  it('listing the children of a node in source order', () => {
+    const expr = parse('match x with | [a] if a -> b | 1 -> c');
+    assert.deepEqual(v.children(expr).map(child => child.tag), [
+      'Name', 'PatArg', 'Name', 'Name', 'PatLiteral', 'Name',
+    ]);
+  });
+
+  it('with the names each child can see', () => {
+    const expr = parse('let a = 1, b = a in b');
+    assert.deepEqual(v.scopedChildren(expr).map(({binds}) => binds), [[], ['a'], ['a', 'b']]);
+  });
+
+  it('rebuilding nodes only when their children change', () => {
+    const expr = parse('f x');
+    assert.strictEqual(v.withChildren(expr, v.children(expr)), expr);
+    const rebuilt = v.withChildren(expr, [ast.Name('g'), ast.Name('y')]);
+    assert.strictEqual(show(rebuilt), '(g y)');
+    assert.deepEqual(rebuilt.span, expr.span);
+  });
+
+  it('recomputing the names captured by rebuilt lambdas', () => {
+    const expr = parse('x. x y');
+    const rebuilt = v.withChildren(expr, [ast.ArgSingle('x'), parse('x z')]);
+    assert.deepNestedPropertyVal(rebuilt, 'value.capturedNames', ['z']);
+  });
+
+  it('refusing children of the wrong kind', () => {
+    const expr = parse('x. x');
+    assert.throws(() => v.withChildren(expr, [ast.Name('x'), ast.Name('x')]), /Expected a parameter/);
+    assert.throws(() => v.withChildren(expr, [ast.Name('x')]), /has 2 children/);
+  });
+
+  it('folding a tree into a value', () => {
+    const depth = v.fold<number>(parse('f (g [1, {a: x}])'), (_node, results) => 1 + Math.max(0, ...results));
+    assert.strictEqual(depth, 5);
+  });
+
+  it('rewriting it from the bottom up', () => {
+    assert.strictEqual(show(v.map(parse('1 + 2 + x * (3 + 4)'), addNumbers)), '((+) 3 ((*) x 7))');
+  });
+
+  it('rewriting it from the top down', () => {
+    // `1 + 2` only becomes a number after its parent has been looked at
+    assert.strictEqual(show(v.map(parse('1 + 2 + 3'), addNumbers, 'topDown')), '((+) 3 3)');
+  });
+
+  it('visiting every node with the local names it can see', () => {
+    const seen: string[] = [];
+    v.walk(parse('(x {y = x}. x y z) w'), (node, {bound}) => {
+      if (node.tag === 'Name')
+        seen.push(`${node.value}:${[...bound].join(',')}`);
+    }, ['w']);
+    assert.deepEqual(seen, ['x:w,x', 'x:w,x,y', 'y:w,x,y', 'z:w,x,y', 'w:w']);
+  });
+
+  it('skipping the children of a node', () => {
+    const paths: v.Path[] = [];
+    v.walk(parse('f (g x) y'), (node, {path}) => {
+      paths.push(path);
+      return node.tag !== 'App' || path.length === 0;
+    });
+    assert.deepEqual(paths, [[], [0], [1]]);
+  });
+
+  it('finding the free names of a node', () => {
+    assert.deepEqual(v.freeNames(parse('let a = b in (c. a c d) a e')), ['b', 'd', 'e']);
+    assert.deepEqual(v.freeNames(parse('a b'), ['a']), ['b']);
+  });
+});
+
+
+describe('A zipper changes a single node in a tree', () => {
+  const expr = parse('f (g x) [y, z]');
+
+  it('moving down and up', () => {
+    const zipper = v.zipTo(expr, [0, 1, 1])!;
+    assert.strictEqual(show(zipper.focus), 'x');
+    assert.deepEqual(v.pathOf(zipper), [0, 1, 1]);
+    assert.strictEqual(show(v.up(zipper)!.focus), '(g x)');
+    assert.isNull(v.up(v.zip(expr)));
+    assert.isNull(v.down(zipper));
+  });
+
+  it('moving between siblings', () => {
+    const zipper = v.zipTo(expr, [1, 0])!;
+    assert.strictEqual(show(v.sibling(zipper, 1)!.focus), 'z');
+    assert.isNull(v.sibling(zipper, -1));
+  });
+
+  it('rebuilding the tree around the changed node', () => {
+    const zipper = v.replace(v.zipTo(expr, [1, 1])!, ast.Dec(Big(5)));
+    assert.strictEqual(show(v.unzip(zipper)), '(f (g x) [y, 5])');
+    assert.strictEqual(show(expr), '(f (g x) [y, z])');
+  });
+});